@@ -1,6 +1,8 @@
 import { InferType, type Infer } from './commons';
-import { EncodeError } from './errors';
-import { MessageFields, Message, IMessage } from './message';
+import { EnumDefinition, type EnumOptions, type EnumValue, type EnumValues } from './enums';
+import { DecodeError, DecodeLimitError, EncodeError } from './errors';
+import { expectJson, formatJsonFloat, fromBase64, parseJsonFloat, parseJsonInt, toBase64, type FromJSONOptions, type JsonValue, type ToJSONOptions } from './json';
+import { MessageFields, Message, IMessage, type DecodeOptions, type EncodeOptions } from './message';
 import { Bytes, ProtoBuffer, WireType } from './protobuffer';
 
 type Defined<T> = Exclude<T, undefined>;
@@ -16,34 +18,72 @@ export type CodecType = {
 export interface Codec<In> {
   get wiretype(): WireType;
   get default(): In;
-  encode(value: In, buffer: ProtoBuffer): void;
-  decode(buffer: ProtoBuffer): In;
-  length(value: In): number;
+  encode(value: In, buffer: ProtoBuffer, options?: EncodeOptions): void;
+  decode(buffer: ProtoBuffer, options?: DecodeOptions): In;
+  /** Byte length of the encoded value, which depends on `deterministic` for submessages. */
+  length(value: In, options?: EncodeOptions): number;
   isDefault(value: In): boolean;
+  /** Convert a value to its canonical proto3 JSON representation. */
+  toJSON(value: In, options?: ToJSONOptions): JsonValue;
+  /** Parse a value from its proto3 JSON representation. */
+  fromJSON(json: JsonValue, options?: FromJSONOptions): In;
+  /** The underlying codec of a transformed codec. */
+  readonly base?: Codec<any>;
+}
+
+/** Codec of an enum. Plain enum codecs without definition are always open. */
+export interface EnumCodec<In = number> extends Codec<In> {
+  readonly definition?: EnumDefinition<any>;
+}
+
+/** Codec of a submessage, which retains a reference to the message schema it en/decodes. */
+export interface SubmessageCodec<In> extends Codec<In> {
+  readonly message: IMessage<any, In>;
 }
 
 export interface TransformParameters<Base, Transformed> {
   get default(): Transformed;
-  encode: (value: Transformed) => Defined<Base>;
-  decode: (value: Defined<Base>) => Transformed;
+  /** Options are those of the encoding, e.g. to pack messages the same way. */
+  encode: (value: Transformed, options?: EncodeOptions) => Defined<Base>;
+  /** Options are those of the decoding, e.g. to apply the same limits when unpacking messages. */
+  decode: (value: Defined<Base>, options?: DecodeOptions) => Transformed;
+  /** Custom JSON representation, such as the special forms of well-known types. Defaults to the
+   * JSON representation of the base value.
+   */
+  toJSON?: (value: Transformed, options?: ToJSONOptions) => JsonValue;
+  fromJSON?: (json: JsonValue, options?: FromJSONOptions) => Transformed;
 }
 
+/** Get the innermost codec of a possibly transformed codec. */
+export const getBaseCodec = (codec: Codec<any>): Codec<any> => codec.base ?? codec;
+
 export function transformCodec<T1, T2>(codec: Codec<T1>, sub: TransformParameters<T1, T2>): Codec<T2> {
   return {
+    get base() { return getBaseCodec(codec); },
     get wiretype() { return codec.wiretype; },
     get default() { return sub.default; },
-    encode(value: T2, buffer: ProtoBuffer) {
-      codec.encode(sub.encode(value), buffer);
+    encode(value: T2, buffer: ProtoBuffer, options?: EncodeOptions) {
+      codec.encode(sub.encode(value, options), buffer, options);
     },
-    decode(buffer: ProtoBuffer): T2 {
-      return sub.decode(codec.decode(buffer) as Defined<T1>);
+    decode(buffer: ProtoBuffer, options?: DecodeOptions): T2 {
+      const decoded = codec.decode(buffer, options) as Defined<T1>;
+      // the merge state only applies to the base value
+      return sub.decode(decoded, options?._merge ? { ...options, _merge: undefined } : options);
     },
-    length(value: T2) {
-      return codec.length(sub.encode(value));
+    length(value: T2, options?: EncodeOptions) {
+      return codec.length(sub.encode(value, options), options);
     },
     isDefault(value: T2) {
       return codec.isDefault(sub.encode(value));
-    }
+    },
+    toJSON(value: T2, options?: ToJSONOptions) {
+      if (sub.toJSON) return sub.toJSON(value, options);
+      return codec.toJSON(sub.encode(value), options);
+    },
+    fromJSON(json: JsonValue, options?: FromJSONOptions) {
+      if (sub.fromJSON) return sub.fromJSON(json, options);
+      return sub.decode(codec.fromJSON(json, options) as Defined<T1>);
+    },
   };
 }
 
@@ -62,6 +102,15 @@ export const codecs = {
 
     length(_value: boolean) {
       return 1;
+    },
+
+    toJSON(value: boolean) {
+      return value;
+    },
+
+    fromJSON(json: JsonValue) {
+      expectJson(json, 'boolean');
+      return json as boolean;
     }
   } as Codec<boolean>,
 
@@ -79,6 +128,14 @@ export const codecs = {
 
     length(_value: number) {
       return 4;
+    },
+
+    toJSON(value: number) {
+      return formatJsonFloat(value);
+    },
+
+    fromJSON(json: JsonValue) {
+      return parseJsonFloat(json);
     }
   } as Codec<number>,
 
@@ -96,6 +153,14 @@ export const codecs = {
 
     length(_value: number) {
       return 8;
+    },
+
+    toJSON(value: number) {
+      return formatJsonFloat(value);
+    },
+
+    fromJSON(json: JsonValue) {
+      return parseJsonFloat(json);
     }
   } as Codec<number>,
 
@@ -113,6 +178,14 @@ export const codecs = {
 
     length(value: number) {
       return ProtoBuffer.varintLength(value);
+    },
+
+    toJSON(value: number) {
+      return value;
+    },
+
+    fromJSON(json: JsonValue) {
+      return Number(parseJsonInt(json, 32, true));
     }
   } as Codec<number>,
 
@@ -130,6 +203,14 @@ export const codecs = {
 
     length(value: bigint) {
       return ProtoBuffer.varintLength(value);
+    },
+
+    toJSON(value: bigint) {
+      return value.toString();
+    },
+
+    fromJSON(json: JsonValue) {
+      return parseJsonInt(json, 64, true);
     }
   } as Codec<bigint>,
 
@@ -147,6 +228,14 @@ export const codecs = {
 
     length(value: number) {
       return ProtoBuffer.varintLength(value);
+    },
+
+    toJSON(value: number) {
+      return value;
+    },
+
+    fromJSON(json: JsonValue) {
+      return Number(parseJsonInt(json, 32, false));
     }
   } as Codec<number>,
 
@@ -164,6 +253,14 @@ export const codecs = {
 
     length(value: bigint) {
       return ProtoBuffer.varintLength(value);
+    },
+
+    toJSON(value: bigint) {
+      return value.toString();
+    },
+
+    fromJSON(json: JsonValue) {
+      return parseJsonInt(json, 64, false);
     }
   } as Codec<bigint>,
 
@@ -181,6 +278,14 @@ export const codecs = {
 
     length(value: number) {
       return ProtoBuffer.zigzagLength(value);
+    },
+
+    toJSON(value: number) {
+      return value;
+    },
+
+    fromJSON(json: JsonValue) {
+      return Number(parseJsonInt(json, 32, true));
     }
   } as Codec<number>,
 
@@ -198,6 +303,14 @@ export const codecs = {
 
     length(value: bigint) {
       return ProtoBuffer.zigzagLength(value);
+    },
+
+    toJSON(value: bigint) {
+      return value.toString();
+    },
+
+    fromJSON(json: JsonValue) {
+      return parseJsonInt(json, 64, true);
     }
   } as Codec<bigint>,
 
@@ -215,6 +328,14 @@ export const codecs = {
 
     length(_value: number) {
       return 4;
+    },
+
+    toJSON(value: number) {
+      return value;
+    },
+
+    fromJSON(json: JsonValue) {
+      return Number(parseJsonInt(json, 32, false));
     }
   } as Codec<number>,
 
@@ -232,6 +353,14 @@ export const codecs = {
 
     length(_value: bigint) {
       return 8;
+    },
+
+    toJSON(value: bigint) {
+      return value.toString();
+    },
+
+    fromJSON(json: JsonValue) {
+      return parseJsonInt(json, 64, false);
     }
   } as Codec<bigint>,
 
@@ -249,6 +378,14 @@ export const codecs = {
 
     length(_value: number) {
       return 4;
+    },
+
+    toJSON(value: number) {
+      return value;
+    },
+
+    fromJSON(json: JsonValue) {
+      return Number(parseJsonInt(json, 32, true));
     }
   } as Codec<number>,
 
@@ -266,25 +403,47 @@ export const codecs = {
 
     length(_value: bigint) {
       return 8;
+    },
+
+    toJSON(value: bigint) {
+      return value.toString();
+    },
+
+    fromJSON(json: JsonValue) {
+      return parseJsonInt(json, 64, true);
     }
   } as Codec<bigint>,
 
-  enum: {
+  enum: <E extends EnumValues>(values?: E | EnumDefinition<E>, options?: EnumOptions): EnumCodec<EnumValue<E>> => ({
+    definition: values && EnumDefinition.from(values, options),
     get wiretype() { return WireType.Varint; },
-    get default() { return 0; },
+    get default() { return 0 as EnumValue<E>; },
     isDefault(value: number) { return value === 0; },
     encode(value: number, buffer: ProtoBuffer) {
       buffer.writeVarint(value);
     },
 
     decode(buffer: ProtoBuffer) {
-      return Number(buffer.readVarint());
+      return Number(buffer.readVarint()) as EnumValue<E>;
     },
 
     length(value: number) {
       return ProtoBuffer.varintLength(value);
+    },
+
+    toJSON(value: number) {
+      return this.definition?.nameOf(value) ?? value;
+    },
+
+    fromJSON(json: JsonValue, { ignoreUnknown = false }: FromJSONOptions = {}) {
+      if (typeof json !== 'string')
+        return Number(parseJsonInt(json, 32, true)) as EnumValue<E>;
+      const value = this.definition?.valueOf(json);
+      if (value !== undefined) return value;
+      if (ignoreUnknown) return 0 as EnumValue<E>;
+      throw new DecodeError(`Unknown enum value: ${json}`);
     }
-  } as Codec<number>,
+  }),
 
   string: {
     get wiretype() { return WireType.Len; },
@@ -295,13 +454,28 @@ export const codecs = {
       return codecs.bytes.encode(bytes, buffer);
     },
 
-    decode(buffer: ProtoBuffer) {
-      const bytes = codecs.bytes.decode(buffer);
-      return new TextDecoder().decode(Bytes.getUint8Array(bytes));
+    decode(buffer: ProtoBuffer, options?: DecodeOptions) {
+      const offset = buffer.absoluteOffset;
+      const bytes = Bytes.getUint8Array(codecs.bytes.decode(buffer, options));
+      if (!options?._verifyUtf8) return new TextDecoder().decode(bytes);
+      try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+      } catch {
+        throw new DecodeError('Invalid UTF-8 in string', { offset });
+      }
     },
 
     length(value: string) {
       return codecs.bytes.length(new TextEncoder().encode(value));
+    },
+
+    toJSON(value: string) {
+      return value;
+    },
+
+    fromJSON(json: JsonValue) {
+      expectJson(json, 'string');
+      return json as string;
     }
   } as Codec<string>,
 
@@ -317,13 +491,25 @@ export const codecs = {
       buffer.writeBytes(value);
     },
 
-    decode(buffer: ProtoBuffer) {
+    decode(buffer: ProtoBuffer, options?: DecodeOptions) {
+      const offset = buffer.absoluteOffset;
       const length = Number(buffer.readVarint());
+      if (options?.maxStringBytes !== undefined && length > options.maxStringBytes)
+        throw new DecodeLimitError('maxStringBytes', options.maxStringBytes, { offset });
       return buffer.readBytes(length);
     },
 
     length(value: Uint8Array) {
       return ProtoBuffer.varintLength(value.length) + value.length;
+    },
+
+    toJSON(value: Uint8Array | Bytes) {
+      return toBase64(Bytes.getUint8Array(value));
+    },
+
+    fromJSON(json: JsonValue) {
+      expectJson(json, 'string');
+      return fromBase64(json as string);
     }
   } as Codec<Uint8Array | Bytes>,
 
@@ -334,52 +520,56 @@ export const codecs = {
     encode(value: T, buffer: ProtoBuffer) {
       return codecs.string.encode(value, buffer);
     },
-    decode(buffer: ProtoBuffer) {
-      return codecs.string.decode(buffer) as T;
+    decode(buffer: ProtoBuffer, options?: DecodeOptions) {
+      return codecs.string.decode(buffer, options) as T;
     },
     length(value: T) {
       return codecs.string.length(value);
     },
+    toJSON(value: T) {
+      return value;
+    },
+    fromJSON(json: JsonValue) {
+      return codecs.string.fromJSON(json) as T;
+    },
   }),
 
-  submessage: <T extends MessageFields, U = Infer<T>>(fields: T | IMessage<T, U>): Codec<U> => {
+  submessage: <T extends MessageFields, U = Infer<T>>(fields: T | IMessage<T, U>): SubmessageCodec<U> => {
     const isIMessage = (value: any): value is IMessage<T, U> => InferType in value && value['type'] === 'message' && 'fields' in value;
     const msg: IMessage<T, U> = isIMessage(fields) ? fields : new Message<T>(fields) as IMessage<T, U>;
-    const fields_ = msg.fields;
 
     return {
+      message: msg,
       get wiretype() { return WireType.Len; },
-      get default() {
-        const result: any = {};
-        for (const key in fields_) {
-          result[key] = fields_[key]!.codec.default;
-        }
-        return result;
-      },
+      get default() { return msg.default; },
 
       isDefault(value: U) {
-        for (const key in fields_) {
-          if (!fields_[key]!.codec.isDefault((value as any)[key])) {
-            return false;
-          }
-        }
-        return true;
+        return msg.isDefault(value);
       },
 
-      encode(value: U, buffer: ProtoBuffer) {
-        const length = msg.length(value);
+      encode(value: U, buffer: ProtoBuffer, options?: EncodeOptions) {
+        const length = msg.length(value, options);
         buffer.writeVarint(length);
-        msg.encode(value, buffer);
+        // submessages were validated along with their parent
+        msg.encode(value, { buffer, deterministic: options?.deterministic });
       },
 
-      decode(buffer: ProtoBuffer): U {
+      decode(buffer: ProtoBuffer, options?: DecodeOptions): U {
         const length = Number(buffer.readVarint());
-        return msg.decode(buffer.slice(length)) as U;
+        return msg.decode(buffer.slice(length), { ...options, _depth: (options?._depth ?? 0) + 1 }) as U;
       },
 
-      length(value: U): number {
-        const length = msg.length(value);
+      length(value: U, options?: EncodeOptions): number {
+        const length = msg.length(value, options);
         return ProtoBuffer.varintLength(length) + length;
+      },
+
+      toJSON(value: U, options?: ToJSONOptions) {
+        return msg.toJSON(value, options);
+      },
+
+      fromJSON(json: JsonValue, options?: FromJSONOptions) {
+        return msg.fromJSON(json, options);
       }
     };
   },
@@ -394,13 +584,22 @@ export const codecs = {
         return codecs.string.encode(JSON.stringify(value), buffer);
       },
 
-      decode(buffer: ProtoBuffer) {
-        return JSON.parse(codecs.string.decode(buffer));
+      decode(buffer: ProtoBuffer, options?: DecodeOptions) {
+        return JSON.parse(codecs.string.decode(buffer, options));
       },
 
       length(value: T) {
         return codecs.string.length(JSON.stringify(value));
       },
+
+      // on the wire, this is a string, so it is represented as such in JSON as well
+      toJSON(value: T) {
+        return JSON.stringify(value);
+      },
+
+      fromJSON(json: JsonValue) {
+        return JSON.parse(codecs.string.fromJSON(json));
+      },
     }
   },
 };
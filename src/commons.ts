@@ -1,6 +1,8 @@
 import type { IMessage, Message, MessageFields } from './message';
 import type { FieldSchema } from './schema';
 
+type Defined<T> = Exclude<T, undefined>;
+
 export const InferType = '@@hiprotoInferType@@';
 
 export interface IVariants<Prop extends string, T extends Record<string | number, IMessage<any, any>>> {
@@ -14,6 +16,20 @@ export type ToVariant<Prop extends string, K extends string | number, T> = T ext
   ? U & { [P in Prop]: K }
   : never;
 
+export interface IOneOf<Prop extends string, T extends Record<string, FieldSchema<any, any>>> {
+  readonly type: 'oneof';
+  /** Name of the property that discriminates the members. */
+  readonly prop: Prop;
+  /** Member field schemas. At most one of them is present on the wire. */
+  readonly fields: T;
+};
+
+export type ToOneOf<Prop extends string, K extends string, T> = T extends FieldSchema<infer U, any>
+  ? { [P in Prop]: K } & { [P in K]: Defined<U> }
+  : never;
+
+export const isOneOf = (value: MessageFields[string]): value is IOneOf<any, any> => value.type === 'oneof';
+
 /** Repeatedness indicates whether a field should be an array or not. The different modes of
  * Repeatedness only affect the encoding process. Typically, `Default` should suffice for all
  * cases.
@@ -46,10 +62,14 @@ type OptionalizeUndefined<T extends {}> = {
 export type Infer<T> =
   T extends IVariants<infer Prop, infer U>
   ? { [K in Exclude<keyof U, symbol>]: ToVariant<Prop, K, U[K]> }[Exclude<keyof U, symbol>]
+  : T extends IOneOf<infer Prop, infer U>
+  ? { [K in Extract<keyof U, string>]: ToOneOf<Prop, K, U[K]> }[Extract<keyof U, string>] | undefined
   : T extends Message<infer U>
   ? OptionalizeUndefined<{ [K in keyof U]: Infer<U[K]> }>
+  // other messages, such as transformed & lazy ones, are inferred from their annotated value type,
+  // which also allows annotating recursive messages explicitly
   : T extends IMessage<any, infer U>
-  ? OptionalizeUndefined<{ [K in keyof U]: Infer<U[K]> }>
+  ? U
   : T extends MessageFields
   ? OptionalizeUndefined<{ [K in keyof T]: Infer<T[K]> }>
   : T extends FieldSchema<infer U, any>
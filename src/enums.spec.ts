@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+import { EnumDefinition } from './enums';
+
+describe('enums', () => {
+  enum Color {
+    Unknown = 0,
+    Red = 1,
+    Green = 2,
+  }
+
+  test('typescript enum', () => {
+    const def = new EnumDefinition(Color);
+    expect(def.names).toEqual(['Unknown', 'Red', 'Green']);
+    expect(def.has(1)).toBe(true);
+    expect(def.has(3)).toBe(false);
+    expect(def.nameOf(Color.Green)).toBe('Green');
+    expect(def.nameOf(3)).toBeUndefined();
+    expect(def.valueOf('Red')).toBe(Color.Red);
+    expect(def.valueOf('Blue')).toBeUndefined();
+    expect(def.closed).toBe(false);
+  });
+
+  test('const object', () => {
+    const def = new EnumDefinition({
+      UNKNOWN: 0,
+      STARTED: 1,
+      RUNNING: 1,
+      STOPPED: -1,
+    } as const, { closed: true });
+    expect(def.closed).toBe(true);
+    expect(def.has(-1)).toBe(true);
+    // first alias is canonical
+    expect(def.nameOf(1)).toBe('STARTED');
+    expect(def.valueOf('RUNNING')).toBe(1);
+  });
+
+  test('invalid values', () => {
+    expect(() => new EnumDefinition({ FOO: 1.5 })).toThrow(RangeError);
+    expect(() => new EnumDefinition({ FOO: 2 ** 31 })).toThrow(RangeError);
+  });
+});
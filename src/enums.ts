@@ -0,0 +1,61 @@
+/** Plain object mapping names to numeric values, such as TypeScript numeric enums or `as const`
+ * objects. String values are ignored, which allows passing TypeScript enums with their reverse
+ * mappings.
+ */
+export type EnumValues = Record<string, string | number>;
+
+/** Union of the numeric values of an enum. */
+export type EnumValue<E extends EnumValues> = Extract<E[keyof E], number>;
+
+export interface EnumOptions {
+  /** Closed enums only accept the values defined in the enum. Unrecognized values are moved to the
+   * unknown fields of the containing message upon decoding, as protobuf does for *proto2* enums.
+   * Open enums, the default, retain unrecognized values as-is, unless the `enum_type` feature of
+   * their field is `closed`.
+   */
+  closed?: boolean;
+}
+
+/** Definition of a protobuf enum. Provides name & number lookups, e.g. for JSON & text output. */
+export class EnumDefinition<E extends EnumValues = EnumValues> {
+  #names = new Map<number, string>();
+  #values = new Map<string, EnumValue<E>>();
+  readonly closed: boolean;
+
+  constructor(public readonly values: E, { closed = false }: EnumOptions = {}) {
+    this.closed = closed;
+    for (const [name, value] of Object.entries(values)) {
+      // skip reverse mappings of TypeScript numeric enums
+      if (typeof value !== 'number') continue;
+      if (!Number.isInteger(value) || value < -0x80000000 || value > 0x7fffffff)
+        throw new RangeError(`Enum value ${name} must be a 32 bit integer, got ${value}`);
+      // in case of aliases, the first name is canonical
+      if (!this.#names.has(value)) this.#names.set(value, name);
+      this.#values.set(name, value as EnumValue<E>);
+    }
+  }
+
+  /** Whether the given number is a value of this enum. */
+  has(value: number) {
+    return this.#names.has(value);
+  }
+
+  /** Get the canonical name of the given value, if any. */
+  nameOf(value: number) {
+    return this.#names.get(value);
+  }
+
+  /** Get the value of the given name, if any. */
+  valueOf(name: string) {
+    return this.#values.get(name);
+  }
+
+  /** Names of all values, including aliases. */
+  get names() {
+    return Array.from(this.#values.keys());
+  }
+
+  static from<E extends EnumValues>(values: E | EnumDefinition<E>, options?: EnumOptions) {
+    return values instanceof EnumDefinition ? values : new EnumDefinition(values, options);
+  }
+}
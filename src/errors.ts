@@ -1,13 +1,125 @@
-export class EncodeError extends Error {
-  constructor(message: string) {
-    super(message);
+import { WireType } from './protobuffer';
+
+/** Path to a value within a message, e.g. `['tx', 'msgs', 3, 'amount']`. */
+export type Path = (string | number)[];
+
+/** Location of an error within a message. */
+export interface ErrorDetails {
+  path?: Path;
+  /** Absolute byte offset within the outermost buffer, where known. */
+  offset?: number;
+  /** Index of the innermost field being processed. */
+  fieldIndex?: number;
+  /** Wire type of the innermost field being processed. */
+  wiretype?: WireType;
+  cause?: unknown;
+}
+
+/** Base class of errors raised while encoding or decoding messages. */
+export class HiprotoError extends Error {
+  /** The message without location details. */
+  readonly reason: string;
+  path: Path;
+  offset?: number;
+  fieldIndex?: number;
+  wiretype?: WireType;
+
+  constructor(message: string, { path = [], offset, fieldIndex, wiretype, cause }: ErrorDetails = {}) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = 'HiprotoError';
+    this.reason = message;
+    this.path = path;
+    this.offset = offset;
+    this.fieldIndex = fieldIndex;
+    this.wiretype = wiretype;
+    this.message = this.#format();
+  }
+
+  /** Attribute this error to the enclosing field at `path`. Details of inner fields take precedence,
+   * as they are more specific.
+   */
+  within(path: Path, { offset, fieldIndex, wiretype }: Omit<ErrorDetails, 'path' | 'cause'> = {}) {
+    this.path = [...path, ...this.path];
+    this.offset ??= offset;
+    this.fieldIndex ??= fieldIndex;
+    this.wiretype ??= wiretype;
+    this.message = this.#format();
+    return this;
+  }
+
+  #format() {
+    const location = [
+      this.path.length ? `at ${this.path.join('.')}` : '',
+      this.offset !== undefined ? `offset ${this.offset}` : '',
+    ].filter(Boolean).join(', ');
+    return location ? `${this.reason} (${location})` : this.reason;
+  }
+}
+
+export class EncodeError extends HiprotoError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, details);
     this.name = 'EncodeError';
   }
 }
 
-export class DecodeError extends Error {
-  constructor(message: string) {
-    super(message);
+export class DecodeError extends HiprotoError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, details);
     this.name = 'DecodeError';
   }
 }
+
+/** A limit of `DecodeOptions` was exceeded, e.g. by hostile input. */
+export class DecodeLimitError extends DecodeError {
+  constructor(public readonly limit: DecodeLimit, public readonly max: number, details?: ErrorDetails) {
+    super(`Exceeded ${limit} of ${max}`, details);
+    this.name = 'DecodeLimitError';
+  }
+}
+
+/** Unknown fields were decoded by a strict message. */
+export class UnknownFieldsError extends DecodeError {
+  constructor(public readonly fields: { index: number, wiretype: WireType }[], details?: ErrorDetails) {
+    super(`Unknown fields: ${fields.map(({ index, wiretype }) => `${index} (${WireType[wiretype] ?? wiretype})`).join(', ')}`, details);
+    this.name = 'UnknownFieldsError';
+  }
+}
+
+export type DecodeLimit = 'maxDepth' | 'maxMessageBytes' | 'maxRepeatedItems' | 'maxStringBytes' | 'maxUnknownFields';
+
+export class ParseError extends Error {
+  constructor(message: string, public readonly file: string, public readonly line: number, public readonly column: number) {
+    super(`${message} (${file}:${line}:${column})`);
+    this.name = 'ParseError';
+  }
+}
+
+export interface ValidationIssue {
+  path: Path;
+  message: string;
+}
+
+/** Refinements failed. Lists all failures rather than just the first. */
+export class ValidationError extends HiprotoError {
+  constructor(public issues: ValidationIssue[]) {
+    super(formatIssues(issues));
+    this.name = 'ValidationError';
+  }
+
+  override within(path: Path) {
+    this.issues = this.issues.map(issue => ({ ...issue, path: [...path, ...issue.path] }));
+    this.message = formatIssues(this.issues);
+    return this;
+  }
+}
+
+const formatIssues = (issues: ValidationIssue[]) =>
+  issues.map(({ path, message }) => path.length ? `${path.join('.')}: ${message}` : message).join('; ');
+
+/** Convert any error thrown while processing a field into a hiproto error attributed to the field. */
+export function toHiprotoError(error: unknown, ErrorType: typeof EncodeError | typeof DecodeError): HiprotoError {
+  if (error instanceof HiprotoError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ErrorType(message, { cause: error });
+}
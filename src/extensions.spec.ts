@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'bun:test';
+import { ValidationError } from './errors';
+import { ExtensionRegistry, getExtension, setExtension } from './extensions';
+import { Extensions, UnknownFields } from './message';
+import { ProtoBuffer, WireType } from './protobuffer';
+import { v } from './schema';
+
+describe('extensions', () => {
+  const Foo = v.message({ name: v.string(1) }, { syntax: 'proto2' });
+  const count = v.extension(Foo, 100, v.int32(0));
+  const tags = v.extension(Foo, 101, v.repeated.string(0));
+  const inner = v.extension(Foo, 102, v.submessage(0, { a: v.int32(1), b: v.int32(2) }));
+  const registry = new ExtensionRegistry([count, tags, inner]);
+  // name = 'x', count = 0, tags = ['a', 'b'], inner = { a: 1 }, then inner = { b: 2 }
+  const hex = '0a0178' + 'a00600' + 'aa060161' + 'aa060162' + 'b206020801' + 'b206021002';
+
+  test('decode & encode', () => {
+    const decoded = Foo.decode(ProtoBuffer.fromHex(hex), { extensions: registry });
+    expect(decoded).toMatchObject({ name: 'x' });
+    expect(decoded[UnknownFields]).toEqual({});
+    // extensions have explicit presence, and are repeated & merged like fields
+    expect(getExtension(decoded, count)).toBe(0);
+    expect(getExtension(decoded, tags)).toEqual(['a', 'b']);
+    expect(getExtension(decoded, inner)).toMatchObject({ a: 1, b: 2 });
+
+    const encoded = Foo.encode(decoded).toShrunk().toHex();
+    expect(encoded).toBe('0a0178' + 'a00600' + 'aa060161' + 'aa060162' + 'b2060408011002');
+    expect(Foo.length(decoded)).toBe(encoded.length / 2);
+  });
+
+  test('unregistered extensions', () => {
+    const decoded = Foo.decode(ProtoBuffer.fromHex(hex));
+    expect(getExtension(decoded, count)).toBeUndefined();
+    expect(decoded[UnknownFields]![100]).toEqual({ index: 100, wiretype: WireType.Varint, value: 0n });
+
+    // setting an extension replaces its unknown fields
+    setExtension(decoded, count, 5);
+    expect(decoded[UnknownFields]![100]).toBeUndefined();
+    expect(Foo.encode(decoded).toShrunk().toHex()).toContain('a00605');
+    setExtension(decoded, count, undefined);
+    expect(decoded[Extensions]!.size).toBe(0);
+  });
+
+  test('submessages & copies', () => {
+    const Bar = v.message({ foo: v.submessage(1, Foo) });
+    const bar = Bar.decode(ProtoBuffer.fromHex('0a03a00607'), { extensions: registry });
+    expect(getExtension(bar.foo!, count)).toBe(7);
+
+    // copies share the extensions of their original, unlike derived messages
+    expect(getExtension(Foo.strict().decode(ProtoBuffer.fromHex('a00607'), { extensions: registry }), count)).toBe(7);
+    expect(() => Foo.strict().decode(ProtoBuffer.fromHex('a00607'))).toThrow('Unknown fields: 100 (Varint)');
+    expect(getExtension(Foo.extend({}).decode(ProtoBuffer.fromHex('a00607'), { extensions: registry }), count)).toBeUndefined();
+  });
+
+  test('deterministic', () => {
+    const value = { name: 'x', [UnknownFields]: { 200: { index: 200, wiretype: WireType.Varint, value: 1n }, 50: { index: 50, wiretype: WireType.Varint, value: 1n } } };
+    setExtension(value, tags, ['a']);
+    setExtension(value, count, 1);
+    expect(Foo.encode(value, { deterministic: true }).toShrunk().toHex()).toBe('0a0178' + '9003' + '01' + 'a00601' + 'aa060161' + 'c00c01');
+  });
+
+  test('wire type mismatch & refinements', () => {
+    // mismatching wire types are unknown fields
+    const decoded = Foo.decode(ProtoBuffer.fromHex('a50601000000'), { extensions: registry });
+    expect(getExtension(decoded, count)).toBeUndefined();
+    expect(decoded[UnknownFields]![100]).toMatchObject({ index: 100, wiretype: WireType.I32 });
+
+    const positive = v.extension(Foo, 103, v.int32(0).min(1).name('positive'));
+    const extensions = new ExtensionRegistry([positive]);
+    let error: any;
+    try {
+      Foo.decode(ProtoBuffer.fromHex('b80600'), { extensions });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues).toEqual([{ path: ['positive'], message: 'Must be at least 1' }]);
+  });
+
+  test('errors', () => {
+    expect(() => v.extension(Foo, 1, v.int32(0))).toThrow('Duplicate field index: 1, used by name and extension 1');
+    expect(() => v.extension(Foo, 100, v.map(0, v.string(1), v.string(2)))).toThrow('Extension 100 cannot be a map field');
+    expect(() => new ExtensionRegistry([count, v.extension(Foo, 100, v.string(0))])).toThrow('Duplicate extension index: 100');
+    expect(() => v.extension(Foo, 19000, v.int32(0))).toThrow('reserved by protobuf');
+  });
+});
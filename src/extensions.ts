@@ -0,0 +1,93 @@
+import { isOneOf } from './commons';
+import { Extensions, getProtoName, Message, RawUnknownFields, UnknownFields, type MessageFields, type UnknownFieldsProp } from './message';
+import { ProtoBuffer } from './protobuffer';
+import { withParameters, type FieldSchema } from './schema';
+
+/** A proto2 extension, i.e. a field declared outside of the message it extends with `extend Foo { ... }`.
+ * Extensions are decoded when registered with the `ExtensionRegistry` passed to `decode`, and are
+ * stored on the decoded value under the `Extensions` symbol.
+ */
+export class Extension<T> {
+  /** Name of the extension, which locates its errors. Defaults to its index. */
+  readonly name: string;
+  /** Field of the extension, with its features resolved according to the syntax of the extended
+   * message. Extensions always track their presence.
+   */
+  readonly field: FieldSchema<T, string>;
+  /** Message of the extension field alone, which encodes & decodes its values like any other field. */
+  readonly message: Message<any>;
+
+  constructor(readonly extendee: Message<any>, readonly index: number, schema: FieldSchema<T, string>) {
+    this.name = getProtoName(schema, String(index));
+    if (schema._map)
+      throw new Error(`Extension ${this.name} cannot be a map field`);
+    const field = findField(extendee.fields, index);
+    if (field)
+      throw new Error(`Duplicate field index: ${index}, used by ${field} and extension ${this.name}`);
+
+    const features = schema._repeated ? schema._features : { ...schema._features, field_presence: 'explicit' as const };
+    this.message = new Message({ [this.name]: withParameters(schema, { index, _features: features }) }, { syntax: extendee.syntax });
+    this.field = this.message.fields[this.name]!;
+  }
+}
+
+/** Extensions to decode, by the message they extend & their index. Registries are passed to `decode`,
+ * and apply to submessages as well.
+ */
+export class ExtensionRegistry {
+  #extensions = new Map<Message<any>, Map<number, Extension<any>>>();
+
+  constructor(extensions: Iterable<Extension<any>> = []) {
+    for (const extension of extensions) {
+      this.add(extension);
+    }
+  }
+
+  add(extension: Extension<any>): this {
+    const target = extension.extendee._original;
+    let extensions = this.#extensions.get(target);
+    if (!extensions) this.#extensions.set(target, extensions = new Map());
+    const existing = extensions.get(extension.index);
+    if (existing && existing !== extension)
+      throw new Error(`Duplicate extension index: ${extension.index}, used by ${existing.name} and ${extension.name}`);
+    extensions.set(extension.index, extension);
+    return this;
+  }
+
+  /** Find the extension of the given message with the given index, if registered. */
+  find(message: Message<any>, index: number): Extension<any> | undefined {
+    return this.#extensions.get(message._original)?.get(index);
+  }
+}
+
+/** Get the value of an extension of a decoded value, or `undefined` if absent. */
+export function getExtension<T>(value: object, extension: Extension<T>): T | undefined {
+  return (value as UnknownFieldsProp)[Extensions]?.get(extension);
+}
+
+/** Set the value of an extension, or remove it when `undefined`. Unknown fields of the same index,
+ * e.g. decoded without registering the extension, are removed so they are not encoded twice.
+ */
+export function setExtension<T>(value: object, extension: Extension<T>, extensionValue: T | undefined): void {
+  const val = value as UnknownFieldsProp;
+  if (extensionValue === undefined)
+    val[Extensions]?.delete(extension);
+  else
+    (val[Extensions] ??= new Map()).set(extension, extensionValue);
+
+  delete val[UnknownFields]?.[extension.index];
+  if (val[RawUnknownFields])
+    val[RawUnknownFields] = val[RawUnknownFields].filter(({ bytes }) => new ProtoBuffer(bytes).readFieldHeader().index !== extension.index);
+}
+
+/** Find the key of the field with the given index, including members of *one of*'s. */
+function findField(fields: MessageFields, index: number) {
+  for (const [key, field] of Object.entries(fields)) {
+    if (isOneOf(field)) {
+      const member = Object.entries(field.fields as Record<string, FieldSchema<any, any>>).find(([, schema]) => schema.index === index);
+      if (member) return `${key}.${member[0]}`;
+    } else if (field.index === index) {
+      return key;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/** Protobuf features which differ between syntaxes & editions, named after `google.protobuf.FeatureSet`.
+ * Values are the lowercase names of the feature values, e.g. `explicit` for `EXPLICIT`.
+ */
+export interface FeatureSet {
+  /** Whether singular fields track their presence, i.e. whether fields set to their default value
+   * are encoded. `legacy_required` fields are explicit & required, like proto2 `required` fields.
+   */
+  field_presence: 'explicit' | 'implicit' | 'legacy_required';
+  /** Closed enums move unrecognized values to the unknown fields upon decoding. Only applies to
+   * enums with a definition.
+   */
+  enum_type: 'open' | 'closed';
+  /** Encoding of repeated scalars. Repeated fields created with `repeated.expanded` are always
+   * expanded.
+   */
+  repeated_field_encoding: 'packed' | 'expanded';
+  /** Whether strings must be valid UTF-8 when decoding. */
+  utf8_validation: 'verify' | 'none';
+  /** Encoding of submessages: length prefixed, or delimited by start & end group tags. Map entries
+   * are always length prefixed.
+   */
+  message_encoding: 'length_prefixed' | 'delimited';
+}
+
+export type Edition = '2023';
+
+/** Syntax of a message, which determines the defaults of its features. Editions may override the
+ * defaults of their edition.
+ */
+export type Syntax = 'proto2' | 'proto3' | { edition: Edition, features?: Partial<FeatureSet> };
+
+/** Values of each feature, for validation. */
+const FEATURE_VALUES: { [K in keyof FeatureSet]: readonly FeatureSet[K][] } = {
+  field_presence: ['explicit', 'implicit', 'legacy_required'],
+  enum_type: ['open', 'closed'],
+  repeated_field_encoding: ['packed', 'expanded'],
+  utf8_validation: ['verify', 'none'],
+  message_encoding: ['length_prefixed', 'delimited'],
+};
+
+/** Features of messages without syntax, which is hiproto's original behavior: proto3, except that
+ * strings are not validated.
+ */
+const DEFAULT_FEATURES: Readonly<FeatureSet> = {
+  field_presence: 'implicit',
+  enum_type: 'open',
+  repeated_field_encoding: 'packed',
+  utf8_validation: 'none',
+  message_encoding: 'length_prefixed',
+};
+
+const SYNTAX_FEATURES: Record<'proto2' | 'proto3', Readonly<FeatureSet>> = {
+  proto2: {
+    field_presence: 'explicit',
+    enum_type: 'closed',
+    repeated_field_encoding: 'expanded',
+    utf8_validation: 'none',
+    message_encoding: 'length_prefixed',
+  },
+  proto3: {
+    field_presence: 'implicit',
+    enum_type: 'open',
+    repeated_field_encoding: 'packed',
+    utf8_validation: 'verify',
+    message_encoding: 'length_prefixed',
+  },
+};
+
+const EDITION_FEATURES: Record<Edition, Readonly<FeatureSet>> = {
+  2023: {
+    field_presence: 'explicit',
+    enum_type: 'open',
+    repeated_field_encoding: 'packed',
+    utf8_validation: 'verify',
+    message_encoding: 'length_prefixed',
+  },
+};
+
+/** Resolve the features of a field from the syntax of its message & the field's own overrides. */
+export function resolveFeatures(syntax: Syntax | undefined, overrides: Partial<FeatureSet> = {}): FeatureSet {
+  return { ...getSyntaxFeatures(syntax), ...validateFeatures(overrides) };
+}
+
+function getSyntaxFeatures(syntax: Syntax | undefined): FeatureSet {
+  if (syntax === undefined) return DEFAULT_FEATURES;
+  if (typeof syntax === 'object') {
+    if (!Object.hasOwn(EDITION_FEATURES, syntax.edition))
+      throw new Error(`Unsupported edition: ${syntax.edition}`);
+    return { ...EDITION_FEATURES[syntax.edition], ...validateFeatures(syntax.features ?? {}) };
+  }
+  if (!Object.hasOwn(SYNTAX_FEATURES, syntax))
+    throw new Error(`Unsupported syntax: ${syntax}`);
+  return SYNTAX_FEATURES[syntax];
+}
+
+/** Throw on unknown features & values, e.g. of features introduced by later editions. */
+export function validateFeatures(features: Partial<FeatureSet>) {
+  for (const [name, value] of Object.entries(features)) {
+    if (!Object.hasOwn(FEATURE_VALUES, name))
+      throw new Error(`Unknown feature: ${name}`);
+    const values: readonly string[] = FEATURE_VALUES[name as keyof FeatureSet];
+    if (value !== undefined && !values.includes(value))
+      throw new Error(`Invalid value of feature ${name}: ${value}`);
+  }
+  return features;
+}
@@ -1,5 +1,13 @@
 import { v as hiproto } from './schema.js';
 export { type TransformParameters } from './codecs.js';
-export { UnknownFields } from './message.js';
+export { EnumDefinition, type EnumOptions, type EnumValues } from './enums.js';
+export { type Edition, type FeatureSet, type Syntax } from './features.js';
+export { Extension, ExtensionRegistry, getExtension, setExtension } from './extensions.js';
+export { DecodeError, DecodeLimitError, EncodeError, HiprotoError, ParseError, UnknownFieldsError, ValidationError, type DecodeLimit, type ErrorDetails, type Path, type ValidationIssue } from './errors.js';
+export { Extensions, Message, RawUnknownFields, UnknownFields, type DecodeOptions, type EncodeOptions, type IMessage, type MessageOptions, type RawUnknownField, type SafeResult, type UnknownField, type UnknownFieldsMode } from './message.js';
+export { type Refinement, type RefinementOptions } from './refinements.js';
+export { type FromProtoOptions, type ProtoLoader, type ProtoRegistry } from './parser.js';
+export { type ToProtoOptions, type ToProtoRegistry } from './printer.js';
+export { type AnyRegistry, type AnyValue, type Seconds, type WellKnownTypes } from './wkt.js';
 export default hiproto;
 export { hiproto, hiproto as hpb };
@@ -0,0 +1,182 @@
+import { describe, expect, test } from 'bun:test';
+import { fromBase64, toBase64, toJsonName } from './json';
+import { v } from './schema';
+
+describe('json', () => {
+  test('names', () => {
+    expect(toJsonName('foo')).toBe('foo');
+    expect(toJsonName('foo_bar')).toBe('fooBar');
+    expect(toJsonName('foo_bar_baz2')).toBe('fooBarBaz2');
+    expect(toJsonName('fooBar')).toBe('fooBar');
+    expect(toJsonName('foo_')).toBe('foo');
+
+    const schema = v.message({
+      denom_units: v.int32(1),
+      uriHash: v.string(2).name('uri_hash'),
+    });
+
+    const value = { denom_units: 1, uriHash: 'foo' };
+    expect(schema.toJSON(value)).toEqual({ denomUnits: 1, uriHash: 'foo' });
+    expect(schema.toJSON(value, { useProtoNames: true })).toEqual({ denom_units: 1, uri_hash: 'foo' });
+    expect(schema.fromJSON({ denomUnits: 1, uri_hash: 'foo' })).toEqual(value);
+    expect(schema.fromJSON({ denom_units: 1, uriHash: 'foo' })).toEqual(value);
+
+    // custom JSON names, like `json_name`
+    const custom = v.message({ x: v.int64(1).jsonName('xx') });
+    expect(custom.toJSON({ x: 1n })).toEqual({ xx: '1' });
+    expect(custom.toJSON({ x: 1n }, { useProtoNames: true })).toEqual({ x: '1' });
+    expect(custom.fromJSON({ xx: '1' })).toEqual({ x: 1n });
+    expect(custom.fromJSON({ x: '1' })).toEqual({ x: 1n });
+  });
+
+  test('base64', () => {
+    const bytes = new Uint8Array([0xfb, 0xff, 0x01, 0x02]);
+    expect(toBase64(bytes)).toBe('+/8BAg==');
+    expect(toBase64(bytes.subarray(0, 3))).toBe('+/8B');
+    expect(fromBase64('+/8BAg==')).toEqual(bytes);
+    expect(fromBase64('-_8BAg')).toEqual(bytes);
+    expect(toBase64(new Uint8Array())).toBe('');
+  });
+
+  test('scalars', () => {
+    enum Color {
+      Unknown = 0,
+      Red = 1,
+    }
+
+    const schema = v.message({
+      int32: v.int32(1),
+      int64: v.int64(2),
+      uint64: v.repeated.uint64(3),
+      float: v.float(4),
+      double: v.repeated.double(5),
+      bytes: v.bytes(6),
+      color: v.enum(7, Color),
+      flag: v.bool(8),
+      name: v.string(9),
+    });
+
+    const json = schema.toJSON({
+      int32: -1,
+      int64: -42n,
+      uint64: [1n, 18446744073709551615n],
+      float: 1.5,
+      double: [NaN, Infinity, -Infinity],
+      bytes: new Uint8Array([1, 2, 3]),
+      color: Color.Red,
+      flag: true,
+      name: 'foo',
+    });
+    expect(json).toEqual({
+      int32: -1,
+      int64: '-42',
+      uint64: ['1', '18446744073709551615'],
+      float: 1.5,
+      double: ['NaN', 'Infinity', '-Infinity'],
+      bytes: 'AQID',
+      color: 'Red',
+      flag: true,
+      name: 'foo',
+    });
+
+    const decoded = schema.fromJSON(json);
+    expect(decoded).toMatchObject({
+      int32: -1,
+      int64: -42n,
+      uint64: [1n, 18446744073709551615n],
+      float: 1.5,
+      double: [NaN, Infinity, -Infinity],
+      color: Color.Red,
+      flag: true,
+      name: 'foo',
+    });
+    expect(decoded.bytes).toEqual(new Uint8Array([1, 2, 3]));
+
+    // alternative representations
+    expect(schema.fromJSON({ int32: '-1', int64: 42, float: '1.5', color: 1, double: null })).toMatchObject({
+      int32: -1,
+      int64: 42n,
+      float: 1.5,
+      color: Color.Red,
+      double: [],
+    });
+
+    expect(() => schema.fromJSON({ int32: 1.5 })).toThrow();
+    expect(() => schema.fromJSON({ int32: 2 ** 31 })).toThrow();
+    expect(() => schema.fromJSON({ uint64: ['-1'] })).toThrow();
+    expect(() => schema.fromJSON({ color: 'Blue' })).toThrow();
+    expect(() => schema.fromJSON({ flag: 'true' })).toThrow();
+  });
+
+  test('defaults & unknown fields', () => {
+    const schema = v.message({
+      count: v.int32(1),
+      values: v.repeated.string(2),
+      sub: v.submessage(3, { flag: v.bool(1) }),
+      labels: v.map(4, v.string(1), v.string(2)),
+    });
+
+    expect(schema.toJSON({})).toEqual({});
+    expect(schema.toJSON({}, { emitDefaults: true })).toEqual({
+      count: 0,
+      values: [],
+      labels: {},
+    });
+
+    expect(() => schema.fromJSON({ foo: 1 })).toThrow();
+    expect(schema.fromJSON({ foo: 1, count: 2 }, { ignoreUnknown: true })).toMatchObject({ count: 2 });
+  });
+
+  test('composites', () => {
+    const schema = v.message({
+      sub: v.submessage(1, {
+        name: v.string(1),
+        tags: v.repeated.string(2),
+      }),
+      subs: v.repeated.submessage(2, { id: v.uint64(1) }),
+      balances: v.map(3, v.string(1), v.uint64(2)),
+      flags: v.map(4, v.int32(1), v.bool(2), { as: 'record' }),
+      value: v.oneof('kind', {
+        text: v.string(5),
+        some_number: v.int64(6),
+      }),
+    });
+
+    const value: v.infer<typeof schema> = {
+      sub: { name: 'foo', tags: ['a', 'b'] },
+      subs: [{ id: 1n }, { id: 2n }],
+      balances: new Map([['uatom', 100n]]),
+      flags: { 1: true },
+      value: { kind: 'some_number', some_number: 42n },
+    };
+
+    const json = schema.toJSON(value);
+    expect(json).toEqual({
+      sub: { name: 'foo', tags: ['a', 'b'] },
+      subs: [{ id: '1' }, { id: '2' }],
+      balances: { uatom: '100' },
+      flags: { '1': true },
+      someNumber: '42',
+    });
+    expect(schema.fromJSON(json)).toMatchObject(value);
+    expect(schema.fromJSON({ text: 'foo' }).value).toEqual({ kind: 'text', text: 'foo' });
+    expect(() => schema.fromJSON({ text: 'foo', someNumber: '1' })).toThrow();
+  });
+
+  test('transforms', () => {
+    const schema = v.message({
+      amount: v.string(1).transform<bigint>({
+        encode: (value) => value.toString(),
+        decode: (value) => BigInt(value),
+        default: 0n,
+      }),
+    }).transform<{ amount: bigint }>({
+      encode: ({ amount }) => ({ amount: amount * 2n }),
+      decode: ({ amount }) => ({ amount: (amount ?? 0n) / 2n }),
+      default: { amount: 0n },
+    });
+
+    expect(schema.toJSON({ amount: 21n })).toEqual({ amount: '42' });
+    expect(schema.fromJSON({ amount: '42' })).toEqual({ amount: 21n });
+  });
+});
@@ -0,0 +1,128 @@
+import { DecodeError } from './errors';
+
+/** Any value representable in JSON. */
+export type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
+
+export interface ToJSONOptions {
+  /** Emit fields with default values, which are omitted by default. Unset submessages & *one of*'s
+   * are still omitted.
+   */
+  emitDefaults?: boolean;
+  /** Use the original proto field names instead of their lowerCamelCase JSON names. */
+  useProtoNames?: boolean;
+}
+
+export interface FromJSONOptions {
+  /** Ignore unknown fields & enum values instead of throwing a `DecodeError`. */
+  ignoreUnknown?: boolean;
+}
+
+/** Converts a proto field name to its JSON name the same way `protoc` does, e.g. `foo_bar` to `fooBar`. */
+export function toJsonName(name: string) {
+  let result = '';
+  let capitalizeNext = false;
+  for (const char of name) {
+    if (char === '_') {
+      capitalizeNext = true;
+    } else if (capitalizeNext) {
+      result += char.toUpperCase();
+      capitalizeNext = false;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/** Parse a JSON number or numeric string as an integer within the given bit size. */
+export function parseJsonInt(json: JsonValue, bits: 32 | 64, signed: boolean): bigint {
+  let value: bigint;
+  if (typeof json === 'number') {
+    if (!Number.isInteger(json))
+      throw new DecodeError(`Expected integer, got ${json}`);
+    value = BigInt(json);
+  } else if (typeof json === 'string' && /^-?\d+$/.test(json)) {
+    value = BigInt(json);
+  } else if (typeof json === 'string' && json.trim() !== '' && Number.isSafeInteger(Number(json))) {
+    // e.g. exponent notation
+    value = BigInt(Number(json));
+  } else {
+    throw new DecodeError(`Expected integer, got ${JSON.stringify(json)}`);
+  }
+
+  const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+  const max = signed ? (1n << BigInt(bits - 1)) - 1n : (1n << BigInt(bits)) - 1n;
+  if (value < min || value > max)
+    throw new DecodeError(`Integer out of range for ${signed ? '' : 'u'}int${bits}: ${value}`);
+  return value;
+}
+
+/** Format a floating point number. Non-finite values are represented as strings. */
+export function formatJsonFloat(value: number): JsonValue {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return 'Infinity';
+  if (value === -Infinity) return '-Infinity';
+  return value;
+}
+
+/** Parse a JSON number, numeric string, or one of the special strings `NaN`, `Infinity` & `-Infinity`. */
+export function parseJsonFloat(json: JsonValue): number {
+  if (typeof json === 'number') return json;
+  if (typeof json === 'string') {
+    switch (json) {
+      case 'NaN': return NaN;
+      case 'Infinity': return Infinity;
+      case '-Infinity': return -Infinity;
+    }
+    const value = Number(json);
+    if (json.trim() !== '' && !Number.isNaN(value)) return value;
+  }
+  throw new DecodeError(`Expected number, got ${JSON.stringify(json)}`);
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP: Record<string, number> = Object.fromEntries([
+  ...Array.from(BASE64, (char, i) => [char, i]),
+  // URL-safe alphabet
+  ['-', 62],
+  ['_', 63],
+]);
+
+/** Encode bytes as standard base64 with padding. */
+export function toBase64(bytes: Uint8Array) {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const [a = 0, b = 0, c = 0] = bytes.subarray(i, i + 3);
+    const chunk = (a << 16) | (b << 8) | c;
+    result += BASE64[chunk >> 18 & 0x3f]! + BASE64[chunk >> 12 & 0x3f]!;
+    result += i + 1 < bytes.length ? BASE64[chunk >> 6 & 0x3f]! : '=';
+    result += i + 2 < bytes.length ? BASE64[chunk & 0x3f]! : '=';
+  }
+  return result;
+}
+
+/** Decode standard or URL-safe base64, with or without padding. */
+export function fromBase64(value: string) {
+  const chars = value.replace(/=+$/, '');
+  const result = new Uint8Array(Math.floor(chars.length * 3 / 4));
+  let bits = 0, buffer = 0, offset = 0;
+  for (const char of chars) {
+    const sextet = BASE64_LOOKUP[char];
+    if (sextet === undefined)
+      throw new DecodeError(`Invalid base64 character: ${char}`);
+    buffer = (buffer << 6) | sextet;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      result[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return result;
+}
+
+/** Assert the given JSON value is of the given type. */
+export function expectJson<T extends 'string' | 'boolean' | 'object' | 'array'>(json: JsonValue, type: T): void {
+  const actual = Array.isArray(json) ? 'array' : json === null ? 'null' : typeof json;
+  if (actual !== type)
+    throw new DecodeError(`Expected ${type}, got ${JSON.stringify(json)}`);
+}
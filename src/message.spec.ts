@@ -1,5 +1,7 @@
 import { describe, expect, test } from 'bun:test';
-import { Bytes, ProtoBuffer } from './protobuffer';
+import { DecodeError, DecodeLimitError, EncodeError, HiprotoError, UnknownFieldsError, ValidationError } from './errors';
+import { Message, RawUnknownFields, UnknownFields } from './message';
+import { Bytes, ProtoBuffer, WireType } from './protobuffer';
 import { v } from './schema';
 
 describe('messages', () => {
@@ -369,6 +371,281 @@ describe('messages', () => {
     expect(schema.decode(encoded)).toMatchObject(payload);
   });
 
+  test('one of', () => {
+    const schema = v.message({
+      id: v.int32(1),
+      value: v.oneof('kind', {
+        text: v.string(2),
+        count: v.int32(3),
+        sub: v.submessage(4, { flag: v.bool(1) }),
+      }),
+    });
+
+    let payload: v.infer<typeof schema> = {
+      id: 1,
+      value: { kind: 'text', text: 'hello' },
+    };
+    let encoded = schema.encode(payload).toShrunk().seek(0);
+    expect(encoded.toHex()).toBe('08011205' + '68656c6c6f');
+    expect(schema.decode(encoded)).toMatchObject(payload);
+
+    // set members are encoded even if they hold the default value
+    payload = { value: { kind: 'count', count: 0 } };
+    encoded = schema.encode(payload).toShrunk().seek(0);
+    expect(encoded.toHex()).toBe('1800');
+    expect(schema.length(payload)).toBe(2);
+    expect(schema.decode(encoded)).toMatchObject(payload);
+
+    payload = { value: { kind: 'sub', sub: { flag: true } } };
+    encoded = schema.encode(payload).toShrunk().seek(0);
+    expect(schema.decode(encoded)).toMatchObject(payload);
+
+    // unset *one of*'s remain undefined
+    expect(schema.decode(new Uint8Array()).value).toBeUndefined();
+
+    // last one wins
+    encoded = ProtoBuffer.fromHex('1205' + '68656c6c6f' + '182a');
+    expect(schema.decode(encoded).value).toEqual({ kind: 'count', count: 42 });
+
+    expect(() => schema.encode({ value: { kind: 'foo' } as any })).toThrow();
+    expect(() => v.message({ a: v.int32(1), b: v.oneof('kind', { c: v.int32(1) }) })).toThrow();
+    expect(() => v.oneof('kind', { a: v.repeated.int32(1) })).toThrow();
+    expect(() => v.oneof('kind', { kind: v.string(1) })).toThrow('One of member kind conflicts with the discriminating property');
+  });
+
+  test('maps', () => {
+    const schema = v.message({
+      names: v.map(1, v.string(1), v.int32(2)),
+      subs: v.map(2, v.int64(1), v.submessage(2, { flag: v.bool(1) }), { as: 'record' }),
+    });
+
+    const payload: v.infer<typeof schema> = {
+      names: new Map([['foo', 1], ['bar', 0]]),
+      subs: { '42': { flag: true } },
+    };
+
+    const encoded = schema.encode(payload).toShrunk().seek(0);
+    // foo: header + len + (key header + len + 3 bytes) + (value header + value)
+    // bar: header + len + (key header + len + 3 bytes) (default value is omitted)
+    // 42: header + len + (key header + value) + (value header + len + (header + value))
+    expect(encoded.toHex()).toBe('0a070a03666f6f1001' + '0a050a03626172' + '1206082a12020801');
+    expect(schema.length(payload)).toBe(encoded.writtenLength);
+
+    const decoded = schema.decode(encoded);
+    expect(decoded.names).toEqual(new Map([['foo', 1], ['bar', 0]]));
+    expect(decoded.subs).toMatchObject({ '42': { flag: true } });
+
+    // last key wins
+    const duplicate = ProtoBuffer.fromHex('0a070a03666f6f1001' + '0a070a03666f6f1002');
+    expect(schema.decode(duplicate).names).toEqual(new Map([['foo', 2]]));
+
+    // absent maps decode as empty
+    expect(schema.decode(new Uint8Array())).toMatchObject({ names: new Map(), subs: {} });
+
+    expect(() => v.map(3, v.double(1) as any, v.int32(2))).toThrow();
+    expect(() => v.map(3, v.bytes(1) as any, v.int32(2))).toThrow();
+  });
+
+  test('enums', () => {
+    enum Color {
+      Unknown = 0,
+      Red = 1,
+      Green = 2,
+    }
+
+    const Status = {
+      UNKNOWN: 0,
+      ACTIVE: 1,
+    } as const;
+
+    const schema = v.message({
+      open: v.enum(1, Color),
+      closed: v.enum(2, Color, { closed: true }),
+      closedList: v.repeated.enum(3, Status, { closed: true }),
+    });
+
+    const payload: v.infer<typeof schema> = {
+      open: Color.Green,
+      closed: Color.Red,
+      closedList: [1, 0, 1],
+    };
+
+    let encoded = schema.encode(payload).toShrunk().seek(0);
+    expect(schema.decode(encoded)).toMatchObject(payload);
+
+    // unrecognized values of closed enums are moved to the unknown fields
+    encoded = v.message({
+      open: v.int32(1),
+      closed: v.int32(2),
+      closedList: v.repeated.int32(3),
+    }).encode({
+      open: 42,
+      closed: 43,
+      closedList: [1, 44, 0],
+    }).toShrunk().seek(0);
+
+    const decoded = schema.decode(encoded);
+    expect(decoded).toMatchObject({
+      open: 42,
+      closed: Color.Unknown,
+      closedList: [1, 0],
+    });
+    expect(decoded[UnknownFields]).toEqual({
+      2: { index: 2, wiretype: WireType.Varint, value: 43n },
+      3: { index: 3, wiretype: WireType.Varint, value: 44n },
+    });
+  });
+
+  test('last one wins', () => {
+    const schema = v.message({
+      count: v.int32(1),
+      name: v.string(2),
+      flag: v.bool(3),
+    });
+
+    // count = 1, name = 'foo', count = 2, flag = true, packed count = [3, 4]
+    const encoded = ProtoBuffer.fromHex('0801' + '1203666f6f' + '0802' + '1801' + '0a020304');
+    expect(schema.decode(encoded)).toMatchObject({
+      count: 4,
+      name: 'foo',
+      flag: true,
+    });
+  });
+
+  test('merge submessages', () => {
+    const schema = v.message({
+      id: v.int32(1),
+      sub: v.submessage(2, {
+        name: v.string(1),
+        count: v.int32(2),
+        values: v.repeated.int32(3),
+        inner: v.submessage(4, {
+          a: v.int32(1),
+          b: v.int32(2),
+        }),
+      }),
+      value: v.oneof('kind', {
+        text: v.string(3),
+        msg: v.submessage(4, {
+          a: v.int32(1),
+          b: v.int32(2),
+        }),
+      }),
+    });
+
+    const a = schema.encode({
+      id: 1,
+      sub: {
+        name: 'foo',
+        count: 1,
+        values: [1, 2],
+        inner: { a: 1 },
+      },
+      value: { kind: 'msg', msg: { a: 1 } },
+    }).toShrunk().toUint8Array();
+
+    const b = schema.encode({
+      sub: {
+        count: 2,
+        values: [3],
+        inner: { b: 2 },
+      },
+      value: { kind: 'msg', msg: { b: 2 } },
+    }).toShrunk().toUint8Array();
+
+    // concatenated messages decode as a merge
+    const concatenated = new Uint8Array(a.length + b.length);
+    concatenated.set(a);
+    concatenated.set(b, a.length);
+
+    expect(schema.decode(concatenated)).toMatchObject({
+      id: 1,
+      sub: {
+        name: 'foo',
+        count: 2,
+        values: [1, 2, 3],
+        inner: { a: 1, b: 2 },
+      },
+      value: { kind: 'msg', msg: { a: 1, b: 2 } },
+    });
+
+    // a different *one of* member replaces the previous one entirely
+    const c = schema.encode({ value: { kind: 'text', text: 'bar' } }).toShrunk().toUint8Array();
+    const replaced = new Uint8Array(a.length + c.length + b.length);
+    replaced.set(a);
+    replaced.set(c, a.length);
+    replaced.set(b, a.length + c.length);
+    expect(schema.decode(replaced).value).toMatchObject({ kind: 'msg', msg: { a: 0, b: 2 } });
+  });
+
+  test('merge nested submessages once', () => {
+    type Node = { x?: number, sub?: Node };
+    const Node: v.message<Node> = v.message({ x: v.int32(1), sub: v.submessage(2, v.lazy(() => Node)) });
+    // every level holds its submessage twice, which merge into a single chain
+    const nest = (depth: number): Uint8Array => {
+      if (!depth) return new Uint8Array([0x08, 0x01]);
+      const inner = new ProtoBuffer().writeField(2, WireType.Len, nest(depth - 1)).toShrunk().toUint8Array();
+      return new Uint8Array([0x08, 0x01, ...inner, ...inner]);
+    };
+    const bytes = nest(12);
+    expect(bytes.length).toBeGreaterThan(24_000);
+
+    const start = performance.now();
+    let node: Node | undefined = Node.decode(bytes);
+    expect(performance.now() - start).toBeLessThan(500);
+    let depth = 0;
+    while (node?.sub) {
+      node = node.sub;
+      depth++;
+    }
+    expect(depth).toBe(12);
+
+    // transformed submessages merge their untransformed values
+    const Sum = v.message({
+      pair: v.submessage(1, { a: v.int32(1), b: v.int32(2) }).transform<number>({
+        get default() { return 0; },
+        encode: () => ({}),
+        decode: ({ a = 0, b = 0 }) => a + b,
+      }),
+    });
+    expect(Sum.decode(ProtoBuffer.fromHex('0a020801' + '0a021002')).pair).toBe(3);
+  });
+
+  test('large field indices', () => {
+    const schema = v.message({
+      small: v.int32(1),
+      medium: v.string(16),
+      large: v.repeated.int32(2048),
+      huge: v.submessage(536870911, {
+        value: v.bool(300),
+      }),
+    });
+
+    const payload: v.infer<typeof schema> = {
+      small: 1, // 2 bytes (header + value)
+      medium: 'foo', // 6 bytes (2 bytes header + len + 3 bytes)
+      large: [1, 2, 3], // 7 bytes (3 bytes header + len + 3 bytes)
+      huge: { // 9 bytes (5 bytes header + len + content)
+        value: true, // 3 bytes (2 bytes header + value)
+      },
+    };
+
+    const encoded = schema.encode(payload).toShrunk().seek(0);
+    expect(schema.length(payload)).toBe(24);
+    expect(encoded.writtenLength).toBe(24);
+    expect(schema.decode(encoded)).toMatchObject(payload);
+  });
+
+  test('invalid field indices', () => {
+    expect(() => v.message({ foo: v.int32(0) })).toThrow();
+    expect(() => v.message({ foo: v.int32(536870912) })).toThrow();
+    expect(() => v.message({ foo: v.int32(19000) })).toThrow();
+    expect(() => v.message({ foo: v.int32(19999) })).toThrow();
+    expect(() => v.message({ foo: v.int32(18999), bar: v.int32(20000) })).not.toThrow();
+    // invalid tags are rejected when decoding, as they could not be re-encoded
+    expect(() => v.message({ foo: v.int32(1) }).decode(new Uint8Array([0x00, 0x05]))).toThrow('Field index out of range: 0 (offset 0)');
+  });
+
   test('large', () => {
     const schema = v.message({
       dimensions: v.uint32(1),
@@ -417,4 +694,588 @@ describe('messages', () => {
       }
     }
   });
+
+  describe('lazy', () => {
+    test('recursive', () => {
+      type Expr = { op?: string, left?: Expr, children?: Expr[] };
+      const Expr: v.message<Expr> = v.message({
+        op: v.string(1),
+        left: v.submessage(2, v.lazy(() => Expr)),
+        children: v.repeated.submessage(3, v.lazy(() => Expr)),
+      });
+
+      const value: Expr = { op: 'add', left: { op: 'a' }, children: [{ op: 'b', children: [{ op: 'c' }] }] };
+      const decoded = Expr.decode(Expr.encode(value).seek(0));
+      expect(decoded).toMatchObject(value);
+      // absent lazy submessages are not expanded infinitely
+      expect(decoded.left!.left).toBeUndefined();
+      expect(Expr.toJSON(value)).toEqual({ op: 'add', left: { op: 'a' }, children: [{ op: 'b', children: [{ op: 'c' }] }] });
+    });
+
+    test('mutually recursive', () => {
+      type Folder = { name?: string, files?: File[] };
+      type File = { name?: string, parent?: Folder };
+      const Folder: v.message<Folder> = v.message({
+        name: v.string(1),
+        files: v.repeated.submessage(2, v.lazy(() => File)),
+      });
+      const File: v.message<File> = v.message({
+        name: v.string(1),
+        parent: v.submessage(2, v.lazy(() => Folder)),
+      });
+
+      const value = { name: 'root', files: [{ name: 'a.txt', parent: { name: 'other' } }] };
+      expect(Folder.decode(Folder.encode(value).seek(0))).toMatchObject(value);
+    });
+  });
+
+  describe('limits', () => {
+    type Node = { name?: string, child?: Node, values?: number[], tags?: string[] };
+    const Node: v.message<Node> = v.message({
+      name: v.string(1),
+      child: v.submessage(2, v.lazy(() => Node)),
+      values: v.repeated.int32(3),
+      tags: v.repeated.string(4),
+    });
+
+    const nest = (depth: number): Node => depth ? { child: nest(depth - 1) } : { name: 'leaf' };
+    const catchError = (fn: () => unknown): any => {
+      try {
+        fn();
+      } catch (error) {
+        return error;
+      }
+    };
+
+    test('maxDepth', () => {
+      const bytes = Node.encode(nest(3)).toShrunk().toUint8Array();
+      expect(Node.decode(bytes, { maxDepth: 3 })).toMatchObject(nest(3));
+
+      const error = catchError(() => Node.decode(bytes, { maxDepth: 2 }));
+      expect(error).toBeInstanceOf(DecodeLimitError);
+      expect(error).toBeInstanceOf(DecodeError);
+      expect(error.limit).toBe('maxDepth');
+      expect(error.path).toEqual(['child', 'child', 'child']);
+
+      // defaults to 100
+      const deep = Node.encode(nest(101)).toShrunk().toUint8Array();
+      expect(catchError(() => Node.decode(deep))).toBeInstanceOf(DecodeLimitError);
+    });
+
+    test('maxMessageBytes', () => {
+      const bytes = Node.encode({ name: 'abc', child: { name: 'abcdef' } }).toShrunk().toUint8Array();
+      expect(() => Node.decode(bytes, { maxMessageBytes: bytes.length })).not.toThrow();
+      expect(catchError(() => Node.decode(bytes, { maxMessageBytes: bytes.length - 1 })).limit).toBe('maxMessageBytes');
+    });
+
+    test('maxRepeatedItems', () => {
+      const bytes = Node.encode({ values: [1, 2, 3], tags: ['a', 'b'] }).toShrunk().toUint8Array();
+      expect(() => Node.decode(bytes, { maxRepeatedItems: 3 })).not.toThrow();
+      const error = catchError(() => Node.decode(bytes, { maxRepeatedItems: 2 }));
+      expect(error.limit).toBe('maxRepeatedItems');
+      expect(error.path).toEqual(['values']);
+
+      const Dict = v.message({ entries: v.map(1, v.string(1), v.int32(2)) });
+      const dict = Dict.encode({ entries: new Map([['a', 1], ['b', 2]]) }).toShrunk().toUint8Array();
+      expect(catchError(() => Dict.decode(dict, { maxRepeatedItems: 1 })).limit).toBe('maxRepeatedItems');
+    });
+
+    test('maxStringBytes', () => {
+      const bytes = Node.encode({ child: { tags: ['ok', 'too long'] } }).toShrunk().toUint8Array();
+      expect(() => Node.decode(bytes, { maxStringBytes: 8 })).not.toThrow();
+      const error = catchError(() => Node.decode(bytes, { maxStringBytes: 7 }));
+      expect(error.limit).toBe('maxStringBytes');
+      expect(error.path).toEqual(['child', 'tags', 1]);
+      expect(error.message).toStartWith('Exceeded maxStringBytes of 7');
+    });
+
+    test('maxUnknownFields', () => {
+      const Empty = v.message({});
+      const bytes = Node.encode({ name: 'a', values: [1], tags: ['b'] }).toShrunk().toUint8Array();
+      expect(() => Empty.decode(bytes, { maxUnknownFields: 3 })).not.toThrow();
+      expect(catchError(() => Empty.decode(bytes, { maxUnknownFields: 2 })).limit).toBe('maxUnknownFields');
+    });
+  });
+
+  describe('unknown fields', () => {
+    const Full = v.message({
+      name: v.string(1),
+      flag: v.bool(2),
+      extra: v.fixed32(3),
+      inner: v.submessage(4, { id: v.int32(1), note: v.string(2) }),
+    });
+    const Partial = v.message({
+      name: v.string(1),
+      inner: v.submessage(4, { id: v.int32(1) }),
+    });
+    const bytes = Full.encode({ name: 'a', flag: true, extra: 7, inner: { id: 1, note: 'x' } }).toShrunk().toUint8Array();
+
+    test('keep', () => {
+      const decoded = Partial.decode(bytes);
+      expect(Object.keys(decoded[UnknownFields]!)).toEqual(['2', '3']);
+      // unknown fields are appended, including those of submessages
+      const reencoded = Partial.encode(decoded).toShrunk().toUint8Array();
+      expect(reencoded).toHaveLength(bytes.length);
+      expect(Full.decode(reencoded)).toMatchObject({ name: 'a', flag: true, extra: 7, inner: { id: 1, note: 'x' } });
+    });
+
+    test('preserve', () => {
+      const decoded = Partial.decode(bytes, { unknownFields: 'preserve' });
+      expect(decoded[UnknownFields]![2]).toEqual({ index: 2, wiretype: WireType.Varint, value: 1n });
+      expect(decoded[RawUnknownFields]).toEqual([
+        { after: 'name', bytes: new Uint8Array([0x10, 0x01]) },
+        { after: 'name', bytes: new Uint8Array([0x1d, 0x07, 0x00, 0x00, 0x00]) },
+      ]);
+      expect(Partial.encode(decoded).toShrunk().toUint8Array()).toEqual(bytes);
+
+      // leading & repeated occurrences of the same index
+      const Name = v.message({ name: v.string(1) });
+      const input = new Uint8Array([0x48, 0x01, 0x0a, 0x01, 0x61, 0x42, 0x01, 0x62, 0x48, 0x02]);
+      const name = Name.decode(input, { unknownFields: 'preserve' });
+      expect(name[UnknownFields]![9]).toHaveLength(2);
+      expect(Name.encode(name).toShrunk().toUint8Array()).toEqual(input);
+      expect(Name.length(name)).toBe(input.length);
+    });
+
+    test('strict', () => {
+      let error: any;
+      try {
+        Partial.strict().decode(bytes);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(UnknownFieldsError);
+      expect(error).toBeInstanceOf(DecodeError);
+      expect(error.fields).toEqual([{ index: 2, wiretype: WireType.Varint }, { index: 3, wiretype: WireType.I32 }]);
+      expect(error.message).toBe('Unknown fields: 2 (Varint), 3 (I32)');
+
+      // via decode option, which applies to submessages as well
+      const inner = Partial.safeDecode(Full.encode({ inner: { note: 'x' } }).toShrunk().toUint8Array(), { unknownFields: 'strict' });
+      expect(inner.success).toBe(false);
+      if (!inner.success) expect(inner.issues).toEqual([{ path: ['inner'], message: 'Unknown fields: 2 (Len)' }]);
+    });
+
+    test('strip', () => {
+      const decoded = Partial.strip().decode(bytes);
+      expect(decoded[UnknownFields]).toBeUndefined();
+      expect(decoded).toMatchObject({ name: 'a', inner: { id: 1 } });
+      // unlike the decode option, the mode of a message does not apply to its submessages
+      expect(Object.keys((decoded.inner as any)[UnknownFields])).toEqual(['2']);
+
+      const nested = Partial.decode(bytes, { unknownFields: 'strip' });
+      expect(nested[UnknownFields]).toBeUndefined();
+      expect((nested.inner as any)[UnknownFields]).toBeUndefined();
+      // refinements & modes are retained
+      expect(() => Partial.strip().strict().decode(bytes)).toThrow(UnknownFieldsError);
+    });
+  });
+
+  test('optional', () => {
+    const schema = v.message({
+      count: v.int32(1).optional(),
+      name: v.string(2).optional(),
+      flag: v.bool(3),
+      sub: v.submessage(4, { value: v.int32(1) }),
+      kind: v.oneof('type', { a: v.int32(5), b: v.string(6) }),
+      tags: v.repeated.string(7),
+    });
+
+    // set to default values are encoded, absent values decode as undefined
+    const zero = schema.encode({ count: 0, name: '' }).toShrunk();
+    expect(zero.toHex()).toBe('08001200');
+    expect(schema.decode(zero.seek(0))).toMatchObject({ count: 0, name: '' });
+    const empty = schema.decode(new Uint8Array());
+    expect(empty.count).toBeUndefined();
+    expect(empty.name).toBeUndefined();
+    expect(schema.toJSON({ count: 0 }, { emitDefaults: true })).toEqual({ count: 0, flag: false, tags: [] });
+
+    const value: v.infer<typeof schema> = { count: 0, flag: false, sub: { value: 0 }, kind: { type: 'a', a: 0 }, tags: [] };
+    expect(schema.has(value, 'count')).toBe(true);
+    expect(schema.has(value, 'name')).toBe(false);
+    expect(schema.has(value, 'flag')).toBe(false);
+    // submessages always track their presence
+    expect(schema.has(value, 'sub')).toBe(true);
+    expect(schema.encode(value).toShrunk().toHex()).toBe('0800' + '2200' + '2800');
+    expect(empty.sub).toBeUndefined();
+    expect(schema.has(value, 'kind')).toBe(true);
+    expect(schema.has(value, 'tags')).toBe(false);
+    expect(schema.has({ ...value, flag: true, tags: ['x'] }, 'flag')).toBe(true);
+
+    schema.clear(value, 'count');
+    schema.clear(value, 'kind');
+    schema.clear(value, 'sub');
+    expect(value).toEqual({ count: undefined, flag: false, sub: undefined, kind: undefined, tags: [] });
+    expect(schema.has(value, 'sub')).toBe(false);
+    expect(schema.has(value, 'count')).toBe(false);
+
+    // absent values of map entries are their default nonetheless
+    const Maps = v.message({ subs: v.map(1, v.string(0), v.submessage(0, { value: v.int32(1) })) });
+    expect(Maps.decode(ProtoBuffer.fromHex('0a030a0161')).subs!.get('a')).toMatchObject({ value: 0 });
+
+    expect(() => v.repeated.int32(1).optional()).toThrow('cannot be optional');
+  });
+
+  test('custom defaults', () => {
+    const Inner = v.message({ value: v.int32(1).default(7) });
+    const schema = v.message({
+      count: v.int32(1).default(42),
+      name: v.string(2).default('anon').optional(),
+      data: v.bytes(3).default(new Uint8Array([1, 2])),
+      inner: v.submessage(4, Inner),
+      point: v.submessage(5, { x: v.int32(1), y: v.int32(2) }).default({ x: 1, y: 2 }),
+    });
+
+    // absent fields decode to their defaults, which are reflected in the inferred type
+    const empty = schema.decode(new Uint8Array());
+    const count: number = empty.count;
+    expect(count).toBe(42);
+    expect(empty).toMatchObject({ name: 'anon', data: new Uint8Array([1, 2]), inner: undefined, point: { x: 1, y: 2 } });
+    expect(schema.decode(new Uint8Array()).point).not.toBe(empty.point);
+    expect(schema.default).toMatchObject({ count: 42, inner: undefined });
+    expect(schema.decode(ProtoBuffer.fromHex('2200')).inner).toMatchObject({ value: 7 });
+
+    // values equal to the default are omitted unless the field has explicit presence, while the
+    // zero value is not
+    expect(schema.encode({ ...schema.default, data: new Uint8Array([1, 2]), point: { x: 1, y: 2 } }).toShrunk().toHex()).toBe('1204616e6f6e');
+    expect(schema.encode({ ...empty, name: undefined }).toShrunk().toHex()).toBe('');
+    const value = { ...schema.default, name: undefined, count: 0, inner: { value: 0 } };
+    const zero = schema.encode(value).toShrunk();
+    expect(zero.toHex()).toBe('0800' + '22020800');
+    expect(schema.length(value)).toBe(6);
+    expect(schema.decode(zero.seek(0))).toMatchObject({ count: 0, inner: { value: 0 } });
+    expect(schema.has(empty, 'count')).toBe(false);
+
+    const Proto2 = v.message({ n: v.int32(1).default(42) }, { syntax: 'proto2' });
+    expect(Proto2.encode({ n: 42 }).toShrunk().toHex()).toBe('082a');
+    expect(Proto2.has({ n: 42 }, 'n')).toBe(true);
+    const decoded = Proto2.decode(new Uint8Array());
+    expect(decoded.n).toBe(42);
+    // absent fields decoded as their default remain absent until assigned
+    expect(Proto2.has(decoded, 'n')).toBe(false);
+    expect(Proto2.encode(decoded).toShrunk().toHex()).toBe('');
+    expect(Proto2.encode({ ...decoded }).toShrunk().toHex()).toBe('');
+    expect(Proto2.length(decoded)).toBe(0);
+    expect(Proto2.toJSON(decoded)).toEqual({});
+    decoded.n = 1;
+    expect(Proto2.has(decoded, 'n')).toBe(true);
+    expect(Proto2.encode(decoded).toShrunk().toHex()).toBe('0801');
+    Proto2.clear(decoded, 'n');
+    expect(decoded.n).toBeUndefined();
+    expect(Proto2.has(decoded, 'n')).toBe(false);
+    decoded.n = 42;
+    expect(Proto2.has(decoded, 'n')).toBe(true);
+    expect(Proto2.encode(decoded).toShrunk().toHex()).toBe('082a');
+
+    expect(() => v.repeated.int32(1).default([1] as any)).toThrow('cannot have defaults');
+  });
+
+  test('deterministic', () => {
+    const Inner = v.message({ labels: v.map(1, v.string(1), v.int32(2)) });
+    const Doc = v.message({
+      memo: v.string(3),
+      value: v.oneof('kind', { num: v.int32(4), str: v.string(1) }),
+      inner: v.submessage(2, Inner),
+      counts: v.map(5, v.int64(1), v.bool(2), { as: 'record' }),
+    });
+
+    const a = Doc.encode({
+      memo: 'm',
+      value: { kind: 'str', str: 's' },
+      inner: { labels: new Map([['b', 2], ['a', 1]]) },
+      counts: { '10': true, '-1': false, '2': true },
+    }, { deterministic: true }).toShrunk().toHex();
+    const b = Doc.encode({
+      counts: { '2': true, '10': true, '-1': false },
+      inner: { labels: new Map([['a', 1], ['b', 2]]) },
+      value: { kind: 'str', str: 's' },
+      memo: 'm',
+    }, { deterministic: true }).toShrunk().toHex();
+    expect(a).toBe(b);
+    expect(a).toBe([
+      '0a0173', // value.str = 1
+      '120e' + '0a050a0161' + '1001' + '0a050a0162' + '1002', // inner = 2, sorted labels
+      '1a016d', // memo = 3
+      '2a0b08ffffffffffffffffff01', '2a0408021001', '2a04080a1001', // counts = 5, sorted numerically
+    ].join(''));
+
+    // unknown fields are interleaved by index
+    const Partial = v.message({ memo: v.string(3) });
+    const decoded = Partial.decode(new Uint8Array([0x1a, 0x01, 0x6d, 0x28, 0x01, 0x10, 0x80, 0x01, 0x08, 0x02]), { unknownFields: 'preserve' });
+    expect(Partial.encode(decoded, { deterministic: true }).toShrunk().toHex()).toBe('0802' + '108001' + '1a016d' + '2801');
+
+    // re-encoded unknown fields of submessages are measured as such, e.g. non-canonical varints
+    const Outer = v.message({ s: v.submessage(1, { a: v.int32(1) }) });
+    const outer = Outer.decode(ProtoBuffer.fromHex('0a050801108100'), { unknownFields: 'preserve' });
+    const encoded = Outer.encode(outer, { deterministic: true }).toShrunk();
+    expect(encoded.toHex()).toBe('0a04' + '0801' + '1001');
+    expect(Outer.length(outer, { deterministic: true })).toBe(6);
+    expect(Outer.decode(encoded.seek(0)).s).toMatchObject({ a: 1 });
+    expect(Outer.encode(outer).toShrunk().toHex()).toBe('0a050801108100');
+  });
+
+  test('groups', () => {
+    const Search = v.message({
+      result: v.group(1, { url: v.string(2) }),
+      pages: v.repeated.group(3, { number: v.int32(4) }),
+    }, { syntax: 'proto2' });
+    const value = { result: { url: 'a' }, pages: [{ number: 1 }, { number: 2 }] };
+    const buffer = Search.encode(value).toShrunk();
+    expect(buffer.toHex()).toBe('0b' + '120161' + '0c' + '1b' + '2001' + '1c' + '1b' + '2002' + '1c');
+    expect(Search.length(value)).toBe(13);
+    expect(Search.decode(buffer.seek(0))).toMatchObject(value);
+
+    // unknown groups are kept with their nested groups & re-encoded as such
+    const Empty = v.message({});
+    const decoded = Empty.decode(buffer.seek(0), { unknownFields: 'preserve' });
+    expect(decoded[UnknownFields]![1]).toMatchObject({ index: 1, wiretype: WireType.SGroup });
+    expect(decoded[UnknownFields]![3]).toHaveLength(2);
+    expect(Empty.encode(decoded).toShrunk().toHex()).toBe(buffer.toHex());
+    expect(Empty.encode(Empty.decode(ProtoBuffer.fromHex('0b1b20011c0c'))).toShrunk().toHex()).toBe('0b1b20011c0c');
+
+    expect(() => Empty.decode(ProtoBuffer.fromHex('0c'))).toThrow('Unexpected end group tag');
+    expect(() => Empty.decode(ProtoBuffer.fromHex('0b1c'))).toThrow('Mismatched end group tag of field 3');
+  });
+
+  describe('syntax', () => {
+    const Color = { RED: 0, GREEN: 1 } as const;
+    const fields = {
+      count: v.int32(1),
+      color: v.enum(2, Color),
+      ids: v.repeated.int32(3),
+      packed: v.repeated.int32(4).features({ repeated_field_encoding: 'packed' }),
+    };
+
+    test('proto2', () => {
+      const Proto2 = v.message(fields, { syntax: 'proto2' });
+      const value = { count: 0, ids: [1, 2], packed: [3, 4] };
+      expect(Proto2.encode(value).toShrunk().toHex()).toBe('0800' + '18011802' + '22020304');
+      expect(v.message(fields).encode(value).toShrunk().toHex()).toBe('1a020102' + '22020304');
+      expect(Proto2.extend({}).syntax).toBe('proto2');
+
+      // fields have explicit presence & enums are closed
+      const decoded = Proto2.decode(new Uint8Array([0x10, 0x05]));
+      expect(decoded.count).toBeUndefined();
+      expect(decoded.color).toBeUndefined();
+      expect(decoded[UnknownFields]).toMatchObject({ 2: { index: 2, wiretype: WireType.Varint, value: 5n } });
+    });
+
+    test('proto3', () => {
+      const Proto3 = v.message({
+        name: v.string(1),
+        tags: v.map(2, v.string(1), v.string(2), { as: 'record' }),
+      }, { syntax: 'proto3' });
+      const invalid = new Uint8Array([0x0a, 0x01, 0xff]);
+      expect(() => Proto3.decode(invalid)).toThrow('Invalid UTF-8 in string (at name, offset 1)');
+      expect(() => Proto3.decode(new Uint8Array([0x12, 0x03, 0x12, 0x01, 0xff]))).toThrow(DecodeError);
+      expect(v.message({ name: v.string(1) }).decode(invalid).name).toBe('\ufffd');
+
+      // submessages have explicit presence regardless of the syntax
+      const Doc = v.message({
+        sub: v.submessage(1, { a: v.int32(1) }),
+        e: v.submessage(2, v.wkt.Empty),
+        n: v.submessage(3, v.wkt.Int32Value),
+      }, { syntax: 'proto3' });
+      expect(Doc.fields.sub._optional).toBe(true);
+      expect(Doc.encode({ sub: { a: 0 }, e: {} }).toShrunk().toHex()).toBe('0a00' + '1200');
+      expect(Doc.decode(new Uint8Array())).toMatchObject({ sub: undefined, e: undefined, n: null });
+    });
+
+    test('editions', () => {
+      const Inner = v.message({ a: v.int32(1), b: v.int32(2) });
+      const Doc = v.message({
+        inner: v.submessage(1, Inner),
+        items: v.repeated.submessage(2, Inner),
+        flag: v.bool(3).features({ field_presence: 'implicit' }),
+        count: v.int32(4),
+      }, { syntax: { edition: '2023', features: { message_encoding: 'delimited' } } });
+
+      // submessages are delimited by group tags
+      const value = { inner: { a: 1 }, items: [{ b: 2 }], flag: false, count: 0 };
+      const buffer = Doc.encode(value).toShrunk();
+      expect(buffer.toHex()).toBe('0b' + '0801' + '0c' + '13' + '1002' + '14' + '2000');
+      expect(Doc.length(value)).toBe(10);
+      expect(Doc.decode(buffer.seek(0))).toMatchObject(value);
+
+      // delimited submessages are merged, and length prefixed ones are accepted as well
+      expect(Doc.decode(ProtoBuffer.fromHex('0b08010c' + '0b10020c')).inner).toMatchObject({ a: 1, b: 2 });
+      expect(Doc.decode(ProtoBuffer.fromHex('0a020801')).inner).toMatchObject({ a: 1 });
+      expect(() => Doc.decode(ProtoBuffer.fromHex('0b08011c'))).toThrow('Mismatched end group tag of field 3');
+
+      expect(() => v.message({}, { syntax: { edition: '2024' as any } })).toThrow('Unsupported edition: 2024');
+      expect(() => v.int32(1).features({ field_presence: 'maybe' as any })).toThrow('Invalid value of feature field_presence: maybe');
+    });
+  });
+
+  describe('composition', () => {
+    const Base = v.message({
+      id: v.uint64(1).required(),
+      name: v.string(2),
+      tags: v.repeated.string(3),
+    });
+
+    test('extend & merge', () => {
+      const Extended = Base.extend({ owner: v.string(4), name: v.bytes(2) });
+      const value: v.infer<typeof Extended> = { id: 1n, name: new Uint8Array([1]), owner: 'me' };
+      expect(Extended.decode(Extended.encode(value).seek(0))).toMatchObject({ id: 1n, owner: 'me', tags: [] });
+
+      const Merged = Message.merge(Base, v.message({ owner: v.string(4) }));
+      expect(Object.keys(Merged.fields)).toEqual(['id', 'name', 'tags', 'owner']);
+
+      expect(() => Base.extend({ owner: v.string(2) })).toThrow('Duplicate field index: 2, used by name and owner');
+      expect(() => Message.merge(Base, v.message({ other: v.int32(1) }))).toThrow('Duplicate field index: 1');
+    });
+
+    test('pick & omit', () => {
+      const Picked = Base.pick('id', 'name');
+      expect(Object.keys(Picked.fields)).toEqual(['id', 'name']);
+      const picked: v.infer<typeof Picked> = { id: 1n, name: 'a' };
+      expect(Picked.decode(Base.encode({ ...picked, tags: ['x'] }).seek(0))).toMatchObject(picked);
+
+      const Omitted = Base.omit('tags');
+      expect(Object.keys(Omitted.fields)).toEqual(['id', 'name']);
+    });
+
+    test('partial', () => {
+      const Partial = Base.partial();
+      expect(Partial.fields.id._required).toBe(false);
+      expect(Base.fields.id._required).toBe(true);
+      const value: v.infer<typeof Partial> = {};
+      expect(Partial.encode(value).toShrunk().toUint8Array()).toHaveLength(0);
+    });
+
+    test('unknown fields mode & refinements', () => {
+      const unknown = ProtoBuffer.fromHex('2801');
+      const Strict = Base.strict().refine(({ id }) => id > 0n, 'Must have an id');
+      for (const Derived of [Strict.extend({ owner: v.string(4) }), Strict.pick('id'), Strict.omit('tags'), Strict.partial()])
+        expect(() => Derived.decode(unknown.seek(0))).toThrow('Unknown fields: 5 (Varint)');
+      expect(Base.strip().pick('id').decode(unknown.seek(0))[UnknownFields]).toBeUndefined();
+      expect(Base.pick('id').decode(unknown.seek(0))[UnknownFields]![5]).toBeDefined();
+
+      // refinements check values of the original message
+      expect(() => Strict.decode(new Uint8Array())).toThrow('Must have an id');
+      expect(Strict.partial().decode(new Uint8Array())).toMatchObject({ id: 0n });
+    });
+  });
+
+  describe('errors', () => {
+    const Coin = v.message({
+      denom: v.string(1),
+      amount: v.uint64(2),
+    });
+    const Tx = v.message({
+      memo: v.string(1),
+      msgs: v.repeated.submessage(3, Coin),
+    });
+
+    test('decode errors locate the innermost field', () => {
+      // msgs[0] contains amount with a truncated varint
+      const bytes = new Uint8Array([0x0a, 0x00, 0x1a, 0x02, 0x10, 0x80]);
+      let error: any;
+      try {
+        Tx.decode(bytes);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(DecodeError);
+      expect(error).toBeInstanceOf(HiprotoError);
+      expect(error.path).toEqual(['msgs', 0, 'amount']);
+      expect(error.offset).toBe(6);
+      expect(error.fieldIndex).toBe(2);
+      expect(error.wiretype).toBe(WireType.Varint);
+      expect(error.message).toBe('Buffer underflow: truncated varint (at msgs.0.amount, offset 6)');
+    });
+
+    test('underflow of length-delimited fields', () => {
+      const bytes = Tx.encode({ memo: 'hello', msgs: [] }).toShrunk().toUint8Array();
+      expect(() => Tx.decode(bytes.slice(0, -1))).toThrow(DecodeError);
+      expect(() => Tx.decode(bytes.slice(0, -1))).toThrow('Buffer underflow: expected 5 bytes, but only 4 remain (at memo, offset 2)');
+    });
+
+    test('encode errors wrap their cause', () => {
+      const Event = v.message({
+        at: v.int64(1).transform<string>({
+          get default() { return '0'; },
+          encode: (value) => { if (!/^\d+$/.test(value)) throw new TypeError(`Not a number: ${value}`); return BigInt(value); },
+          decode: (value) => value.toString(),
+        }),
+      });
+      const Log = v.message({ events: v.repeated.submessage(1, Event) });
+
+      let error: any;
+      try {
+        Log.encode({ events: [{ at: '1' }, { at: 'x' }] });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(EncodeError);
+      expect(error.path).toEqual(['events', 1, 'at']);
+      expect(error.fieldIndex).toBe(1);
+      expect(error.cause).toBeInstanceOf(TypeError);
+      expect(error.reason).toBe('Not a number: x');
+    });
+
+    test('wire type mismatch', () => {
+      // denom arrives as varint rather than length-delimited
+      const bytes = new Uint8Array([0x08, 0x05, 0x10, 0x03]);
+      const decoded = Coin.decode(bytes);
+      expect(decoded).toMatchObject({ denom: '', amount: 3n });
+      expect(decoded[UnknownFields]).toEqual({ 1: { index: 1, wiretype: WireType.Varint, value: 5n } });
+
+      let error: any;
+      try {
+        Tx.decode(new Uint8Array([0x1a, 0x04, ...bytes]), { wireTypeMismatch: 'throw' });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(DecodeError);
+      expect(error.message).toBe('Wire type mismatch: expected Len, got Varint (at msgs.0.denom, offset 2)');
+      expect(error.fieldIndex).toBe(1);
+
+      // scalars may arrive packed, but one of members may not
+      const Choice = v.message({
+        value: v.oneof('kind', { num: v.int32(1), str: v.string(2) }),
+        nums: v.int32(3),
+      });
+      const packed = Choice.decode(new Uint8Array([0x0a, 0x01, 0x07, 0x1a, 0x02, 0x01, 0x02]));
+      expect(packed.value).toBeUndefined();
+      expect(packed.nums).toBe(2);
+      expect(packed[UnknownFields]![1]).toMatchObject({ index: 1, wiretype: WireType.Len });
+    });
+
+    test('safe decode & encode', () => {
+      const bytes = Tx.encode({ memo: 'hi', msgs: [{ denom: 'atom', amount: 1n }] }).toShrunk().toUint8Array();
+      const result = Tx.safeDecode(bytes);
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toMatchObject({ memo: 'hi', msgs: [{ denom: 'atom', amount: 1n }] });
+
+      const failure = Tx.safeDecode(bytes.slice(0, -1));
+      expect(failure.success).toBe(false);
+      if (!failure.success) {
+        expect(failure.error).toBeInstanceOf(DecodeError);
+        expect(failure.issues).toEqual([{ path: ['msgs', 0], message: 'Buffer underflow: expected 8 bytes, but only 7 remain' }]);
+      }
+
+      const Strict = v.message({
+        denom: v.string(1).nonempty(),
+        amount: v.uint64(2).min(1n),
+      });
+      const invalid = Strict.safeEncode({ denom: '', amount: 0n }, { validate: true });
+      expect(invalid.success).toBe(false);
+      if (!invalid.success) {
+        expect(invalid.error).toBeInstanceOf(ValidationError);
+        expect(invalid.issues.map(issue => issue.path)).toEqual([['denom'], ['amount']]);
+      }
+
+      const decoded = Strict.safeDecode(new Uint8Array());
+      expect(decoded.success).toBe(false);
+      if (!decoded.success) expect(decoded.issues).toEqual([
+        { path: ['denom'], message: 'Must not be empty' },
+        { path: ['amount'], message: 'Must be at least 1' },
+      ]);
+    });
+
+    test('JSON errors locate the field', () => {
+      expect(() => Tx.fromJSON({ msgs: [{ amount: 'abc' }] })).toThrow(/at msgs\.amount/);
+    });
+  });
 });
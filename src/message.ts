@@ -1,89 +1,284 @@
-import { InferType, type Infer, Repeatedness } from './commons';
-import { ProtoBuffer } from './protobuffer';
-import { DecodeError } from './errors';
-import { WireType } from './protobuffer';
-import type { FieldSchema, Validator } from './schema';
-import { TransformParameters } from './codecs';
+import { InferType, type Infer, type IOneOf, isOneOf, Repeatedness } from './commons';
+import { Bytes, ProtoBuffer } from './protobuffer';
+import { DecodeError, DecodeLimitError, EncodeError, UnknownFieldsError, type ErrorDetails, type HiprotoError, type Path, toHiprotoError, ValidationError, type ValidationIssue } from './errors';
+import { checkRefinements, createRefinement, type Refinement, type RefinementOptions } from './refinements';
+import { MAX_FIELD_INDEX, WireType } from './protobuffer';
+import { expectJson, type FromJSONOptions, type JsonValue, toJsonName, type ToJSONOptions } from './json';
+import { withParameters, type FieldSchema, type FieldSchemaWithTransform, type Validator } from './schema';
+import { codecs, type EnumCodec, getBaseCodec, type SubmessageCodec, type TransformParameters } from './codecs';
+import { resolveFeatures, type FeatureSet, type Syntax } from './features';
+import type { Extension, ExtensionRegistry } from './extensions';
 
-export type MessageFields = Record<PropertyKey, FieldSchema<any, any>>;
+export type MessageFields = Record<PropertyKey, FieldSchema<any, any> | IOneOf<any, any>>;
+
+/** Fields of `Message.partial`, none of which are required. */
+export type PartialFields<T extends MessageFields> = {
+  [K in keyof T]: T[K] extends FieldSchemaWithTransform<infer U, infer S>
+    ? FieldSchemaWithTransform<U | undefined, S>
+    : T[K] extends FieldSchema<infer U, infer S>
+    ? FieldSchema<U | undefined, S>
+    : T[K];
+};
+
+export type UnknownField = { index: number, wiretype: WireType, value: any };
 
 export type UnknownFieldsProp = {
-  [UnknownFields]?: Record<number, { index: number, wiretype: WireType, value: any }>;
+  /** Unknown fields keyed by index. Repeated occurrences are collected into arrays. */
+  [UnknownFields]?: Record<number, UnknownField | UnknownField[]>;
+  [RawUnknownFields]?: RawUnknownField[];
+  [Extensions]?: Map<Extension<any>, any>;
 }
 
 export const UnknownFields = Symbol('UnknownFields');
+/** Raw unknown fields in wire order, when decoded with `unknownFields: 'preserve'`. */
+export const RawUnknownFields = Symbol('RawUnknownFields');
+/** Values of the extensions of a message, as decoded with an `ExtensionRegistry` or set with
+ * `setExtension`.
+ */
+export const Extensions = Symbol('Extensions');
+/** Fields with explicit presence which were absent from the wire data, keyed by name, along with the
+ * defaults they were decoded as.
+ */
+const AbsentFields = Symbol('AbsentFields');
+
+/** Raw bytes of an unknown field, including its header, and the key of the known field preceding it
+ * on the wire, if any.
+ */
+export interface RawUnknownField {
+  after?: string;
+  bytes: Uint8Array;
+}
+
+export interface EncodeOptions {
+  /** Buffer to write to. Defaults to a new buffer. */
+  buffer?: ProtoBuffer;
+  /** Run refinements before encoding, throwing a `ValidationError` if any fail. */
+  validate?: boolean;
+  /** Produce identical bytes for equal values, e.g. for hashing & signing: fields are emitted in
+   * ascending order of their indices, map entries are sorted by key, and unknown fields are sorted
+   * by index & re-encoded rather than written back verbatim.
+   */
+  deterministic?: boolean;
+}
+
+/** Limits for decoding untrusted input. Exceeding a limit raises a `DecodeLimitError`. */
+export interface DecodeOptions {
+  /** Maximum nesting depth of submessages. Defaults to 100, like the reference implementation. */
+  maxDepth?: number;
+  /** Maximum byte length of the message & of each submessage. */
+  maxMessageBytes?: number;
+  /** Maximum number of items of each repeated field, and of entries of each map field. */
+  maxRepeatedItems?: number;
+  /** Maximum byte length of each string & bytes value. */
+  maxStringBytes?: number;
+  /** Maximum number of unknown fields of each message, counting repeated occurrences. */
+  maxUnknownFields?: number;
+  /** How to handle known fields arriving with an unexpected wire type: throw a `DecodeError`, or
+   * move them to the unknown fields like other protobuf runtimes. Defaults to `unknown`.
+   */
+  wireTypeMismatch?: 'throw' | 'unknown';
+  /** How to handle unknown fields, overriding the mode of messages, i.e. `.strict()` & `.strip()`.
+   * Unlike the latter, it applies to submessages as well.
+   */
+  unknownFields?: UnknownFieldsMode;
+  /** Extensions to decode rather than keeping them as unknown fields, including those of submessages. */
+  extensions?: ExtensionRegistry;
+  /** @internal Nesting depth of the message being decoded, tracked by submessage codecs. */
+  _depth?: number;
+  /** @internal Whether strings of the field being decoded must be valid UTF-8. */
+  _verifyUtf8?: boolean;
+  /** @internal State of the submessage being decoded, which merges into its previous occurrence. */
+  _merge?: MergeState;
+}
+
+export interface MessageOptions {
+  /** Syntax of the message, which determines the features of its fields, e.g. their presence. Fields
+   * may override features with `features()`.
+   */
+  syntax?: Syntax;
+}
+
+/** Unknown fields are either kept on the decoded value, rejected, or dropped. `preserve` additionally
+ * retains their raw bytes & positions, so re-encoding reproduces the input exactly.
+ */
+export type UnknownFieldsMode = 'keep' | 'strict' | 'strip' | 'preserve';
+
+/** Result of `safeDecode` & `safeEncode`. Failures list all issues, i.e. every failed refinement of
+ * a `ValidationError`, or the location & reason of any other error.
+ */
+export type SafeResult<T> =
+  | { success: true, data: T }
+  | { success: false, error: HiprotoError, issues: ValidationIssue[] };
+
+const DEFAULT_MAX_DEPTH = 100;
+
+/** Untransformed payload of a submessage & the merge states of its own submessages, so further
+ * occurrences decode on top of it rather than re-decoding previous ones, like protobuf's `MergeFrom`.
+ */
+interface MergeState {
+  /** Member of a *one of* the state belongs to, as only the same member is merged. */
+  member?: string;
+  payload?: any;
+  fields?: Record<string, MergeState>;
+}
+
+/** Field indices reserved for the protobuf implementation. */
+const RESERVED_INDICES = [19000, 19999] as const;
 
 enum EncodeMode {
   Single,
   Packed,
   Expanded,
+  Map,
 }
 
+/** Map key schema types permitted by the protobuf specification. */
+export const MAP_KEY_TYPES = ['int32', 'int64', 'uint32', 'uint64', 'sint32', 'sint64', 'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'bool', 'string'] as const;
+
 export interface IMessage<T extends MessageFields, U> extends Validator<U, 'message'> {
   readonly [InferType]: U;
   readonly type: 'message';
   readonly fields: Readonly<T>;
 
-  encode(value: U, buffer?: ProtoBuffer): ProtoBuffer;
-  decode(buffer: ProtoBuffer | Uint8Array): U & UnknownFieldsProp;
-  length(value: U): number;
-  transform<V extends {}>(params: TransformParameters<U, V>): IMessage<T, V>;
+  /** Encode a value. Accepts either the buffer to write to or encode options. */
+  encode(value: U, options?: ProtoBuffer | EncodeOptions): ProtoBuffer;
+  /** Decode a value. Throws a `ValidationError` listing all failed refinements, if any. */
+  decode(buffer: ProtoBuffer | Uint8Array, options?: DecodeOptions): U & UnknownFieldsProp;
+  /** Like `encode`, but returns errors rather than throwing them. */
+  safeEncode(value: U, options?: ProtoBuffer | EncodeOptions): SafeResult<ProtoBuffer>;
+  /** Like `decode`, but returns errors rather than throwing them. */
+  safeDecode(buffer: ProtoBuffer | Uint8Array, options?: DecodeOptions): SafeResult<U & UnknownFieldsProp>;
+  /** Run refinements against the value, including those of submessages. */
+  validate(value: U, path?: Path): ValidationIssue[];
+  /** Byte length of the encoded value. Deterministic encoding re-encodes unknown fields, which may
+   * differ in length from the preserved bytes.
+   */
+  length(value: U, options?: EncodeOptions): number;
+  /** Value of the message when absent from its containing message. */
+  readonly default: U;
+  /** Whether the given value equals the default, i.e. it would not be encoded as a submessage. */
+  isDefault(value: U): boolean;
+  /** Convert a value to its canonical proto3 JSON representation. */
+  toJSON(value: U, options?: ToJSONOptions): JsonValue;
+  /** Parse a value from its proto3 JSON representation. Both JSON & proto field names are accepted. */
+  fromJSON(json: JsonValue, options?: FromJSONOptions): U;
+  transform<V>(params: TransformParameters<U, V>): IMessage<T, V>;
 }
 
 export class Message<T extends MessageFields> implements IMessage<T, Infer<T>> {
   readonly [InferType]: Infer<T> = undefined as any;
   readonly type = 'message';
   #fieldIndex: Record<number, string> = {};
+  /** Maps field indices of *one of* members to the name of the member within its *one of*. */
+  #oneofIndex: Record<number, string> = {};
+  /** Maps JSON & proto names to field keys and, for *one of*'s, member names. */
+  #jsonIndex: Record<string, { field: string, member?: string }> = {};
+  #refinements: Refinement<Infer<T>>[] = [];
+  #unknownFields: UnknownFieldsMode = 'keep';
+  #syntax: Syntax | undefined;
+  /** Message whose extensions apply to this message. Copies made by `refine()`, `strict()` &
+   * `strip()` share the extensions of their original.
+   */
+  #original: Message<any> = this;
+  /** Fields with their features resolved according to the syntax of the message. */
+  readonly fields: Readonly<T>;
 
-  constructor(public readonly fields: Readonly<T>) {
+  constructor(fields: Readonly<T>, { syntax }: MessageOptions = {}) {
+    this.#syntax = syntax;
+    this.fields = resolveFields(fields, syntax);
     this.#fieldIndex = {};
-    for (const key in fields) {
-      const validator = fields[key];
-      if (this.#fieldIndex[validator.index])
-        throw new Error(`Duplicate field index: ${validator.index}, used by ${this.#fieldIndex[validator.index]} and ${key}`);
-      this.#fieldIndex[validator.index] = key;
+    this.#oneofIndex = {};
+    this.#jsonIndex = {};
+    for (const key in this.fields) {
+      const validator: MessageFields[string] = this.fields[key];
+      if (isOneOf(validator)) {
+        for (const member in validator.fields) {
+          this.#addFieldIndex(validator.fields[member]!.index, key, `${key}.${member}`);
+          this.#oneofIndex[validator.fields[member]!.index] = member;
+          this.#addJsonIndex(validator.fields[member]!, member, { field: key, member });
+        }
+      } else {
+        this.#addFieldIndex(validator.index, key, key);
+        this.#addJsonIndex(validator, key, { field: key });
+      }
     }
   }
 
-  encode(value: Infer<T>, buffer = new ProtoBuffer()) {
+  get syntax() {
+    return this.#syntax;
+  }
+
+  /** @internal The message which extensions of this message are registered for. */
+  get _original(): Message<any> {
+    return this.#original;
+  }
+
+  #addJsonIndex(schema: FieldSchema<any, any>, key: string, entry: { field: string, member?: string }) {
+    this.#jsonIndex[getProtoName(schema, key)] = entry;
+    this.#jsonIndex[getJsonName(schema, key, false)] = entry;
+  }
+
+  #addFieldIndex(index: number, key: string, name: string) {
+    if (!Number.isInteger(index) || index < 1 || index > MAX_FIELD_INDEX)
+      throw new Error(`Invalid field index: ${index}, used by ${name}`);
+    if (index >= RESERVED_INDICES[0] && index <= RESERVED_INDICES[1])
+      throw new Error(`Field index ${index} is reserved by protobuf, used by ${name}`);
+    if (this.#fieldIndex[index])
+      throw new Error(`Duplicate field index: ${index}, used by ${this.#fieldIndex[index]} and ${name}`);
+    this.#fieldIndex[index] = key;
+  }
+
+  encode(value: Infer<T>, options: ProtoBuffer | EncodeOptions = {}) {
+    const { buffer = new ProtoBuffer(), validate = false, deterministic = false } = options instanceof ProtoBuffer ? { buffer: options } : options;
     const val: any = value;
 
-    for (const field in this.fields) {
-      const schema = this.fields[field];
-      const encodeMode = getEncodeMode(schema);
+    if (validate) {
+      const issues = this.validate(value);
+      if (issues.length) throw new ValidationError(issues);
+    }
 
-      if (!val[field] || schema.codec.isDefault(val[field])) continue;
+    // preserved unknown fields are written back after the known field preceding them on the wire,
+    // while deterministic output interleaves unknown fields by index
+    const raw = deterministic ? undefined : groupRawUnknownFields(val[RawUnknownFields]);
+    const unknown = deterministic ? getUnknownFields(val).sort((a, b) => a.index - b.index) : undefined;
+    const writeUnknownBefore = (index: number) => {
+      while (unknown?.length && unknown[0]!.index < index) {
+        const { index, wiretype, value } = unknown.shift()!;
+        buffer.writeField(index, wiretype, value);
+      }
+    };
+    writeRawUnknownFields(buffer, raw, undefined);
 
-      switch (encodeMode) {
-        case EncodeMode.Single: {
-          buffer.writeFieldHeader(schema.index, schema.wiretype);
-          schema.codec.encode(val[field], buffer);
-          break;
-        }
-        case EncodeMode.Packed: {
-          if (!Array.isArray(val[field]) || val[field].length === 0) break;
-          const byteLength = val[field].reduce((acc: number, item: any) => acc + schema.codec.length(item), 0);
-          buffer.writeFieldHeader(schema.index, WireType.Len);
-          buffer.writeVarint(byteLength);
-          buffer.ensureCapacity(byteLength);
-          for (const item of val[field]) {
-            schema.codec.encode(item, buffer);
-          }
-          break;
-        }
-        case EncodeMode.Expanded: {
-          if (!Array.isArray(val[field]) || val[field].length === 0) break;
-          for (const item of val[field]) {
-            buffer.writeFieldHeader(schema.index, schema.wiretype);
-            schema.codec.encode(item, buffer);
-          }
-          break;
-        }
+    for (const { field, index } of deterministic ? this.#sortFields(val) : Object.keys(this.fields).map(field => ({ field, index: 0 }))) {
+      writeUnknownBefore(index);
+
+      // location of the field being encoded, for errors
+      const at: ErrorDetails & { path: Path } = { path: [field], offset: buffer.absoluteOffset };
+      try {
+        this.#encodeField(field, val, buffer, at, { deterministic });
+      } catch (error) {
+        throw toHiprotoError(error, EncodeError).within(at.path, at);
       }
+      writeRawUnknownFields(buffer, raw, field);
+    }
+
+    // extensions follow the known fields, in ascending order of their indices if deterministic
+    for (const [extension, value] of getExtensions(val, deterministic)) {
+      writeUnknownBefore(extension.index);
+      extension.message.encode({ [extension.name]: value }, { buffer, deterministic });
     }
 
-    if (val[UnknownFields]) {
-      for (const { index, wiretype, value } of Object.values((val as UnknownFieldsProp)[UnknownFields]!)) {
+    if (unknown) {
+      for (const { index, wiretype, value } of unknown) {
+        buffer.writeField(index, wiretype, value);
+      }
+    } else if (raw) {
+      // fields preceded by fields which no longer exist
+      for (const anchor of Array.from(raw.keys())) {
+        writeRawUnknownFields(buffer, raw, anchor);
+      }
+    } else if (val[UnknownFields]) {
+      for (const { index, wiretype, value } of getUnknownFields(val)) {
         buffer.writeField(index, wiretype, value);
       }
     }
@@ -91,111 +286,565 @@ export class Message<T extends MessageFields> implements IMessage<T, Infer<T>> {
     return buffer;
   }
 
-  decode(buffer: ProtoBuffer | Uint8Array): Infer<T> & UnknownFieldsProp {
+  /** Get the keys of the fields in ascending order of their indices. *One of*'s are ordered by the
+   * index of their set member.
+   */
+  #sortFields(val: any) {
+    return Object.keys(this.fields).map(field => {
+      const schema: MessageFields[string] = this.fields[field]!;
+      if (!isOneOf(schema)) return { field, index: schema.index };
+      const member = val[field]?.[schema.prop];
+      const indices = Object.values(schema.fields as Record<string, FieldSchema<any, any>>).map(member => member.index);
+      return { field, index: schema.fields[member]?.index ?? Math.min(...indices) };
+    }).sort((a, b) => a.index - b.index);
+  }
+
+  /** Encode a single field, tracking its location within `at` for errors. */
+  #encodeField(field: string, val: any, buffer: ProtoBuffer, at: ErrorDetails & { path: Path }, options: EncodeOptions) {
+    const schema: MessageFields[string] = this.fields[field]!;
+
+    if (isOneOf(schema)) {
+      const member = getOneOfMember(schema, field, val[field]);
+      if (!member) return;
+      Object.assign(at, { path: [field, member.name], fieldIndex: member.schema.index, wiretype: member.schema.wiretype });
+      encodeValue(member.schema, member.value, buffer, options);
+      return;
+    }
+
+    const encodeMode = getEncodeMode(schema);
+    Object.assign(at, { fieldIndex: schema.index, wiretype: encodeMode === EncodeMode.Single || encodeMode === EncodeMode.Expanded ? schema.wiretype : WireType.Len });
+
+    if (val[field] === undefined || val[field] === null) return;
+
+    switch (encodeMode) {
+      case EncodeMode.Single: {
+        if (isDefaultValue(schema, val[field]) || isAbsent(val, field)) break;
+        encodeValue(schema, val[field], buffer, options);
+        break;
+      }
+      case EncodeMode.Packed: {
+        if (!Array.isArray(val[field]) || val[field].length === 0) break;
+        const byteLength = val[field].reduce((acc: number, item: any) => acc + schema.codec.length(item), 0);
+        buffer.writeFieldHeader(schema.index, WireType.Len);
+        buffer.writeVarint(byteLength);
+        buffer.ensureCapacity(byteLength);
+        val[field].forEach((item: any, i: number) => {
+          at.path = [field, i];
+          schema.codec.encode(item, buffer, options);
+        });
+        break;
+      }
+      case EncodeMode.Expanded: {
+        if (!Array.isArray(val[field])) break;
+        val[field].forEach((item: any, i: number) => {
+          at.path = [field, i];
+          at.offset = buffer.absoluteOffset;
+          encodeValue(schema, item, buffer, options);
+        });
+        break;
+      }
+      case EncodeMode.Map: {
+        const entries = getMapEntries(schema, val[field]);
+        if (options.deterministic) entries.sort((a, b) => compareMapKeys(a.key, b.key));
+        for (const entry of entries) {
+          at.offset = buffer.absoluteOffset;
+          buffer.writeFieldHeader(schema.index, WireType.Len);
+          schema.codec.encode(entry, buffer, options);
+        }
+        break;
+      }
+    }
+  }
+
+  decode(buffer: ProtoBuffer | Uint8Array, options: DecodeOptions = {}): Infer<T> & UnknownFieldsProp {
     if (buffer instanceof Uint8Array) buffer = new ProtoBuffer(buffer);
+    // the merge state only applies to this message, not to its submessages
+    const merge = options._merge;
+    if (merge) options = { ...options, _merge: undefined };
+    const { maxDepth = DEFAULT_MAX_DEPTH, maxMessageBytes, maxRepeatedItems, maxUnknownFields, wireTypeMismatch = 'unknown', unknownFields: mode = this.#unknownFields } = options;
+    if ((options._depth ?? 0) > maxDepth)
+      throw new DecodeLimitError('maxDepth', maxDepth, { offset: buffer.absoluteOffset });
+    if (maxMessageBytes !== undefined && buffer.remainingLength > maxMessageBytes)
+      throw new DecodeLimitError('maxMessageBytes', maxMessageBytes, { offset: buffer.absoluteOffset });
+
+    // step 1: read wire data into generic object, or into the payload of the previous occurrence
+    const payload: any = merge?.payload ?? {};
+    if (merge) merge.payload = payload;
+    // stripped unknown fields are discarded
+    const unknownFields = mode === 'strip' ? {} : payload[UnknownFields] ??= {};
+    // unknown fields rejected by strict messages, to be listed all at once
+    const rejected: { index: number, wiretype: WireType }[] = [];
+    // submessages merge into their previous occurrences
+    const merges: Record<string, MergeState> = merge ? merge.fields ??= {} : {};
+    // byte ranges of the occurrences of registered extensions, including their headers
+    const extensions = new Map<Extension<any>, [start: number, end: number][]>();
+    // failed refinements of submessages, collected to report all of them at once
+    const issues: ValidationIssue[] = [];
+    // occurrences of unknown & repeated fields on the wire, for limits
+    let unknownCount = 0;
+    const itemCounts: Record<string, number> = {};
+    const countItem = (fieldName: string) => {
+      itemCounts[fieldName] = (itemCounts[fieldName] ?? 0) + 1;
+      if (maxRepeatedItems !== undefined && itemCounts[fieldName] > maxRepeatedItems)
+        throw new DecodeLimitError('maxRepeatedItems', maxRepeatedItems);
+    };
+    // location of the field being decoded, for errors
+    let at: ErrorDetails & { path: Path } = { path: [] };
+    // start of the current field & the last known field, for preserved unknown fields
+    let start = 0;
+    let lastKnown: string | undefined;
+    const preserve = () => {
+      if (mode !== 'preserve') return;
+      const end = buffer.offset;
+      const bytes = buffer.seek(start).readBytes(end - start).toUint8Array();
+      (payload[RawUnknownFields] ??= []).push({ after: lastKnown, bytes });
+    };
+    const decodeAt = (schema: FieldSchema<any, any>, buffer: ProtoBuffer, path: Path, merge?: MergeState) => {
+      at.path = path;
+      try {
+        const value = decodeValue(schema, at.wiretype!, buffer, unknownFields, merge ? { ...options, _merge: merge } : options);
+        if (value === Unrecognized) preserve();
+        return value;
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        issues.push(...prefixIssues(error.issues, path));
+        return Unrecognized;
+      }
+    };
 
-    // step 1: read wire data into generic object
-    const payload: any = {};
-    const unknownFields = payload[UnknownFields] = {};
     while (buffer.remainingLength > 0) {
-      const { index, wiretype } = buffer.readFieldHeader();
-      const fieldName = this.#fieldIndex[index];
+      at = { path: [], offset: buffer.absoluteOffset };
+      start = buffer.offset;
+      try {
+        const { index, wiretype } = buffer.readFieldHeader();
+        Object.assign(at, { fieldIndex: index, wiretype });
+        const fieldName = this.#fieldIndex[index];
+        const field: MessageFields[string] | undefined = fieldName ? this.fields[fieldName] : undefined;
+        const member = field && isOneOf(field) ? this.#oneofIndex[index]! : undefined;
+        const schema = field && isOneOf(field) ? field.fields[member!]! : field as FieldSchema<any, any> | undefined;
+        const extension = fieldName ? undefined : options.extensions?.find(this, index);
 
-      if (!fieldName) {
-        pushValue(unknownFields, index, { index, wiretype, value: buffer.readWireType(wiretype) });
-        continue;
+        if (extension && isExpectedWireType(extension.field, wiretype, true)) {
+          buffer.readWireType(wiretype, index);
+          let ranges = extensions.get(extension);
+          if (!ranges) extensions.set(extension, ranges = []);
+          ranges.push([start, buffer.offset]);
+          continue;
+        }
+
+        if (!fieldName || !field || !schema || !isExpectedWireType(schema, wiretype, member === undefined)) {
+          if (schema && wireTypeMismatch === 'throw') {
+            at.path = member === undefined ? [fieldName!] : [fieldName!, member];
+            throw new DecodeError(`Wire type mismatch: expected ${WireType[schema.codec.wiretype]}, got ${WireType[wiretype] ?? wiretype}`);
+          }
+          if (maxUnknownFields !== undefined && ++unknownCount > maxUnknownFields)
+            throw new DecodeLimitError('maxUnknownFields', maxUnknownFields);
+          const value = buffer.readWireType(wiretype, index);
+          if (mode === 'strict')
+            rejected.push({ index, wiretype });
+          else if (mode !== 'strip')
+            pushValue(unknownFields, index, { index, wiretype, value });
+          preserve();
+          continue;
+        }
+
+        lastKnown = fieldName;
+
+        if (isOneOf(field)) {
+          // last member on the wire wins, but the same submessage member is merged
+          if (!isSubmessage(schema))
+            delete merges[fieldName];
+          else if (merges[fieldName]?.member !== member)
+            merges[fieldName] = { member };
+          const value = decodeAt(schema, buffer, [fieldName, member!], merges[fieldName]);
+          if (value === Unrecognized) continue;
+          payload[fieldName] = { [field.prop]: member, [member!]: value };
+          continue;
+        }
+
+        // packed fields
+        if (wiretype === WireType.Len && schema.codec.wiretype !== WireType.Len) {
+          at.path = [fieldName];
+          const length = Number(buffer.readVarint());
+          const subbuffer = buffer.slice(length);
+          while (subbuffer.remainingLength > 0) {
+            if (schema._repeated !== Repeatedness.None) countItem(fieldName);
+            const item = decodeValue(schema, schema.codec.wiretype, subbuffer, unknownFields, options);
+            if (item === Unrecognized) continue;
+            // last one wins for non-repeated fields
+            if (schema._repeated === Repeatedness.None)
+              setPresent(payload, fieldName, item);
+            else
+              (payload[fieldName] ??= []).push(item);
+          }
+        } else if (schema._map) {
+          // last key wins
+          countItem(fieldName);
+          const entry = decodeAt(schema, buffer, [fieldName]);
+          if (entry === Unrecognized) continue;
+          const { key, value } = entry;
+          payload[fieldName] ??= getDefaultValue(schema);
+          if (schema._map === 'record')
+            payload[fieldName][String(key)] = value;
+          else
+            payload[fieldName].set(key, value);
+        } else if (schema._repeated !== Repeatedness.None) {
+          countItem(fieldName);
+          const value = decodeAt(schema, buffer, [fieldName, payload[fieldName]?.length ?? 0]);
+          if (value !== Unrecognized) (payload[fieldName] ??= []).push(value);
+        } else {
+          // last one wins, but submessages are merged
+          const value = decodeAt(schema, buffer, [fieldName], isSubmessage(schema) ? merges[fieldName] ??= {} : undefined);
+          if (value === Unrecognized) continue;
+          setPresent(payload, fieldName, value);
+        }
+      } catch (error) {
+        throw toHiprotoError(error, DecodeError).within(at.path, at);
       }
+    }
+
+    if (rejected.length)
+      throw new UnknownFieldsError(rejected, { fieldIndex: rejected[0]!.index, wiretype: rejected[0]!.wiretype });
 
-      const schema = this.fields[fieldName]!;
-      // packed fields
-      if (wiretype === WireType.Len && schema.codec.wiretype !== WireType.Len) {
-        const length = Number(buffer.readVarint());
-        const subbuffer = buffer.slice(length);
-        while (subbuffer.remainingLength > 0) {
-          const item = schema.codec.decode(subbuffer);
-          pushValue(payload, fieldName, item);
+    // step 2: decode the occurrences of extensions, like the fields of a message of their own
+    for (const [extension, ranges] of extensions) {
+      try {
+        const decoded = decodeExtension(extension, buffer, ranges, options);
+        for (const unknown of getUnknownFields(decoded)) {
+          if (mode !== 'strip') pushValue(unknownFields, unknown.index, unknown);
         }
-      } else {
-        pushValue(payload, fieldName, schema.codec.decode(buffer));
+        if (decoded[extension.name] !== undefined)
+          (payload[Extensions] ??= new Map()).set(extension, decoded[extension.name]);
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        issues.push(...error.issues);
       }
     }
 
-    // step 2: post-process & validate payload
+    // step 3: post-process & validate payload
     for (const field in this.fields) {
-      const schema = this.fields[field]!;
+      const schema: MessageFields[string] = this.fields[field]!;
+      // unset *one of*'s remain undefined
+      if (isOneOf(schema)) continue;
 
-      if (!payload[field]) {
-        if (schema._repeated === Repeatedness.None) {
-          payload[field] = schema.codec.default;
-        } else {
-          payload[field] = [];
-        }
-        continue;
+      if (payload[field] === undefined) {
+        payload[field] = getDefaultValue(schema);
+        // absent fields with explicit presence decode as their default, yet remain absent
+        if (hasExplicitPresence(schema) && payload[field] != null)
+          (payload[AbsentFields] ??= new Map()).set(field, payload[field]);
       }
+    }
 
-      if (schema._repeated === Repeatedness.None) {
-        if (Array.isArray(payload[field]))
-          throw new DecodeError(`Field ${field} is repeated, but schema expects a single value`);
+    // submessages validated themselves while being decoded, and their issues skip the refinements
+    // of this message only
+    this.#check(payload, [], issues, false, 0);
+    if (issues.length) throw new ValidationError(issues);
+
+    return payload;
+  }
+
+  safeEncode(value: Infer<T>, options?: ProtoBuffer | EncodeOptions) {
+    return safely(() => this.encode(value, options), EncodeError);
+  }
+
+  safeDecode(buffer: ProtoBuffer | Uint8Array, options?: DecodeOptions) {
+    return safely(() => this.decode(buffer, options), DecodeError);
+  }
+
+  validate(value: Infer<T>, path: Path = []): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    this.#check(value, path, issues, true);
+    return issues;
+  }
+
+  /** Run the refinements of fields & then of the message itself, optionally recursing into submessages.
+   * Message refinements only run if there are no issues beyond the first `count`.
+   */
+  #check(value: any, path: Path, issues: ValidationIssue[], recursive: boolean, count = issues.length) {
+    for (const field in this.fields) {
+      const schema: MessageFields[string] = this.fields[field];
+      if (isOneOf(schema)) {
+        const member = value[field]?.[schema.prop];
+        if (member === undefined || !schema.fields[member]) continue;
+        checkField(schema.fields[member]!, value[field][member], [...path, field, member], issues, recursive);
       } else {
-        if (!Array.isArray(payload[field]))
-          payload[field] = [payload[field]];
+        checkField(schema, value[field], [...path, field], issues, recursive);
       }
+    }
+    // message refinements may rely on valid fields
+    if (issues.length === count)
+      checkRefinements(this.#refinements, value, path, issues);
+  }
 
-      if (schema._required && !payload[field]) {
-        if (schema._repeated === Repeatedness.None) {
-          payload[field] = schema.codec.default;
-        } else {
-          payload[field] = [];
+  /** Create a new message with an additional check of the whole value, e.g. for cross-field rules. */
+  refine(check: (value: Infer<T>) => boolean, options?: RefinementOptions): Message<T> {
+    const message = this.#copy();
+    message.#refinements = [...this.#refinements, createRefinement(check, options)];
+    return message;
+  }
+
+  /** Create a new message which throws an `UnknownFieldsError` when decoding unknown fields. */
+  strict(): Message<T> {
+    const message = this.#copy();
+    message.#unknownFields = 'strict';
+    return message;
+  }
+
+  /** Create a new message which drops unknown fields when decoding, so they are not re-encoded. */
+  strip(): Message<T> {
+    const message = this.#copy();
+    message.#unknownFields = 'strip';
+    return message;
+  }
+
+  #copy() {
+    const message = new Message(this.fields, { syntax: this.#syntax });
+    message.#refinements = this.#refinements;
+    message.#unknownFields = this.#unknownFields;
+    message.#original = this.#original;
+    return message;
+  }
+
+  toJSON(value: Infer<T>, options: ToJSONOptions = {}): JsonValue {
+    const { emitDefaults = false, useProtoNames = false } = options;
+    const val: any = value;
+    const result: Record<string, JsonValue> = {};
+
+    for (const field in this.fields) {
+      const schema: MessageFields[string] = this.fields[field];
+
+      const path: Path = [field];
+
+      try {
+        if (isOneOf(schema)) {
+          const member = getOneOfMember(schema, field, val[field]);
+          if (!member) continue;
+          path.push(member.name);
+          result[getJsonName(member.schema, member.name, useProtoNames)] = member.schema.codec.toJSON(member.value, options);
+          continue;
         }
+
+        let fieldValue = val[field];
+        if (isAbsent(val, field)) continue;
+        if (isDefaultValue(schema, fieldValue)) {
+          if (!emitDefaults) continue;
+          // unset optional fields & submessages are omitted regardless
+          if (fieldValue == null && schema._repeated === Repeatedness.None && !schema._map && (schema._optional || isSubmessage(schema))) continue;
+          fieldValue ??= getDefaultValue(schema);
+        }
+        result[getJsonName(schema, field, useProtoNames)] = fieldToJSON(schema, fieldValue, options);
+      } catch (error) {
+        throw toHiprotoError(error, EncodeError).within(path);
+      }
+    }
+
+    return result;
+  }
+
+  fromJSON(json: JsonValue, options: FromJSONOptions = {}): Infer<T> {
+    expectJson(json, 'object');
+    const payload: any = {};
+
+    for (const [name, value] of Object.entries(json as Record<string, JsonValue>)) {
+      const entry = this.#jsonIndex[name];
+      if (!entry) {
+        if (options.ignoreUnknown) continue;
+        throw new DecodeError(`Unknown field: ${name}`);
+      }
+
+      // `null` is equivalent to the field being absent
+      if (value === null) continue;
+
+      const field: MessageFields[string] = this.fields[entry.field]!;
+      if (isOneOf(field)) {
+        const member = entry.member!;
+        if (payload[entry.field] !== undefined)
+          throw new DecodeError(`Multiple members of one of ${entry.field} are set`);
+        payload[entry.field] = {
+          [field.prop]: member,
+          [member]: fromJSONAt([entry.field, member], () => field.fields[member]!.codec.fromJSON(value, options)),
+        };
+        continue;
+      }
+
+      payload[entry.field] = fromJSONAt([entry.field], () => fieldFromJSON(field, value, options));
+    }
+
+    for (const field in this.fields) {
+      const schema: MessageFields[string] = this.fields[field]!;
+      if (isOneOf(schema)) continue;
+      if (payload[field] === undefined) {
+        payload[field] = getDefaultValue(schema);
       }
     }
 
     return payload;
   }
 
-  length(value: Infer<T>): number {
+  length(value: Infer<T>, options: EncodeOptions = {}): number {
     let length = 0;
-    for (const [key, schema] of Object.entries(this.fields) as [keyof T, FieldSchema<any, string>][] ) {
-      const encodeMode = getEncodeMode(schema);
-      switch (encodeMode) {
-        case EncodeMode.Single:
-          // extra 1 byte for the field header
-          const v = value[key as keyof Infer<T>];
-          if (!v || schema.codec.isDefault(v)) break;
-          length += 1 + schema.length(v);
-          break;
-        case EncodeMode.Packed: {
-          const values: unknown = value[key as keyof Infer<T>] ?? [];
-          if (!Array.isArray(values))
-            throw new DecodeError(`Field ${key.toString()} is packed, but value is not an array`);
-          if (values.length === 0) break;
-          // extra 1 byte for the field header + byte length, packed
-          const byteLength = ProtoBuffer.packedLength(schema.wiretype, values);
-          length += 1 + ProtoBuffer.varintLength(byteLength) + byteLength;
-          break;
+    for (const [key, schema] of Object.entries(this.fields) as [keyof T, MessageFields[string]][] ) {
+      const path: Path = [key as string];
+      try {
+        if (isOneOf(schema)) {
+          const member = getOneOfMember(schema, key.toString(), value[key as keyof Infer<T>]);
+          if (!member) continue;
+          path.push(member.name);
+          length += valueLength(member.schema, member.value, options);
+          continue;
         }
-        case EncodeMode.Expanded: {
-          const values: unknown = value[key as keyof Infer<T>] ?? [];
-          if (!Array.isArray(values))
-            throw new DecodeError(`Field ${key.toString()} is expanded, but value is not an array`);
-          if (values.length === 0) break;
-          for (const item of values) {
-            // extra 1 byte for the field header, for each item
-            length += 1 + schema.length(item);
+
+        const encodeMode = getEncodeMode(schema);
+        switch (encodeMode) {
+          case EncodeMode.Single:
+            // field schema length includes the field header
+            const v = value[key as keyof Infer<T>];
+            if (isDefaultValue(schema, v) || isAbsent(value, key as string)) break;
+            length += valueLength(schema, v, options);
+            break;
+          case EncodeMode.Packed: {
+            const values: unknown = value[key as keyof Infer<T>] ?? [];
+            if (!Array.isArray(values))
+              throw new EncodeError(`Field ${key.toString()} is packed, but value is not an array`);
+            if (values.length === 0) break;
+            // field header + byte length, packed
+            const byteLength = ProtoBuffer.packedLength(schema.wiretype, values);
+            length += ProtoBuffer.fieldHeaderLength(schema.index) + ProtoBuffer.varintLength(byteLength) + byteLength;
+            break;
+          }
+          case EncodeMode.Expanded: {
+            const values: unknown = value[key as keyof Infer<T>] ?? [];
+            if (!Array.isArray(values))
+              throw new EncodeError(`Field ${key.toString()} is expanded, but value is not an array`);
+            if (values.length === 0) break;
+            for (const [i, item] of values.entries()) {
+              path[1] = i;
+              // field schema length includes the field header, for each item
+              length += valueLength(schema, item, options);
+            }
+            break;
+          }
+          case EncodeMode.Map: {
+            for (const entry of getMapEntries(schema, value[key as keyof Infer<T>])) {
+              length += schema.length(entry, options);
+            }
+            break;
           }
-          break;
         }
+      } catch (error) {
+        throw toHiprotoError(error, EncodeError).within(path);
+      }
+    }
+
+    const val = value as UnknownFieldsProp;
+    for (const [extension, value] of getExtensions(val, false)) {
+      length += extension.message.length({ [extension.name]: value }, options);
+    }
+    // deterministic encoding re-encodes the unknown fields rather than writing back their bytes
+    if (val[RawUnknownFields] && !options.deterministic) {
+      for (const { bytes } of val[RawUnknownFields]) {
+        length += bytes.length;
+      }
+    } else {
+      for (const { index, wiretype, value } of getUnknownFields(val)) {
+        length += ProtoBuffer.fieldLength(index, wiretype, value);
       }
     }
     return length;
   }
 
-  transform<V extends {}>(params: TransformParameters<Infer<T>, V>): IMessage<T, V> {
+  /** Whether the field is present on the value, i.e. whether it would be encoded. Fields with
+   * explicit presence are present when set, even to their default value, while other fields are
+   * only present when they differ from it. Decoded fields which were absent from the wire data
+   * remain absent until assigned another value, or cleared & assigned again.
+   */
+  has(value: Infer<T>, field: keyof T): boolean {
+    return !isDefaultValue(this.fields[field]!, (value as any)[field]) && !isAbsent(value, field as string);
+  }
+
+  /** Reset the field of the value to its absent state, which is `undefined` for fields with explicit
+   * presence & *one of*'s.
+   */
+  clear(value: Infer<T>, field: keyof T): void {
+    const schema = this.fields[field]!;
+    (value as any)[AbsentFields]?.delete(field);
+    (value as any)[field] = !isOneOf(schema) && schema._optional ? undefined : getDefaultValue(schema);
+  }
+
+  get default(): Infer<T> {
+    const result: any = {};
+    for (const key in this.fields) {
+      result[key] = getDefaultValue(this.fields[key]!);
+    }
+    return result;
+  }
+
+  isDefault(value: Infer<T>) {
+    for (const key in this.fields) {
+      if (!isDefaultValue(this.fields[key]!, (value as any)[key]) && !isAbsent(value, key)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  transform<V>(params: TransformParameters<Infer<T>, V>): IMessage<T, V> {
     return new MessageTransformer<T, V>(this, params);
   }
+
+  /** Create a new message with additional fields. Fields of the same key are replaced. */
+  extend<U extends MessageFields>(fields: U): Message<Omit<T, keyof U> & U> {
+    return this.#derive({ ...this.fields, ...fields });
+  }
+
+  /** Create a new message with only the given fields. */
+  pick<K extends keyof T>(...keys: K[]): Message<Pick<T, K>> {
+    const fields: any = {};
+    for (const key of keys) {
+      fields[key] = this.fields[key];
+    }
+    return this.#derive(fields);
+  }
+
+  /** Create a new message without the given fields. */
+  omit<K extends keyof T>(...keys: K[]): Message<Omit<T, K>> {
+    const fields: any = { ...this.fields };
+    for (const key of keys) {
+      delete fields[key];
+    }
+    return this.#derive(fields);
+  }
+
+  /** Create a new message where no field is required. */
+  partial(): Message<PartialFields<T>> {
+    const fields: any = {};
+    for (const key in this.fields) {
+      const schema: MessageFields[string] = this.fields[key];
+      fields[key] = isOneOf(schema) || !schema._required ? schema : withParameters(schema, { _required: false });
+    }
+    return this.#derive(fields);
+  }
+
+  /** Create a message of other fields, which keeps the unknown fields mode of this message. Unlike
+   * copies, refinements are dropped as they check the value of this message, and so are extensions.
+   */
+  #derive(fields: MessageFields): Message<any> {
+    const message = new Message(fields, { syntax: this.#syntax });
+    message.#unknownFields = this.#unknownFields;
+    return message;
+  }
+
+  /** Merge the fields of two messages into a new message. Fields of `b` replace those of `a` with the same key. */
+  static merge<A extends MessageFields, B extends MessageFields>(a: Message<A>, b: Message<B>): Message<Omit<A, keyof B> & B> {
+    return a.extend(b.fields);
+  }
 }
 
-class MessageTransformer<T extends MessageFields, U extends {}> implements IMessage<T, U> {
+/** Transformed messages may map to arbitrary values, including primitives. Unlike plain messages,
+ * they are always encoded as submessages when set, as their base value may be meaningful even if
+ * it is the default, e.g. for the `google.protobuf.*Value` wrappers.
+ */
+export class MessageTransformer<T extends MessageFields, U> implements IMessage<T, U> {
   readonly [InferType]: U = undefined as any;
   readonly type = 'message';
 
@@ -204,26 +853,323 @@ class MessageTransformer<T extends MessageFields, U extends {}> implements IMess
     private readonly _params: TransformParameters<any, U>,
   ) {}
 
-  encode(value: U, buffer = new ProtoBuffer()) {
-    return this._parent.encode(this._params.encode(value), buffer);
+  encode(value: U, options?: ProtoBuffer | EncodeOptions) {
+    return this._parent.encode(this._params.encode(value, options instanceof ProtoBuffer ? undefined : options), options);
+  }
+
+  decode(buffer: ProtoBuffer | Uint8Array, options?: DecodeOptions): U & UnknownFieldsProp {
+    const payload = this._parent.decode(buffer, options);
+    // the merge state only applies to the payload
+    const value = this._params.decode(payload, options?._merge ? { ...options, _merge: undefined } : options);
+    // unknown fields can only be retained on non-array objects
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return value as U & UnknownFieldsProp;
+    return Object.assign(value, { [UnknownFields]: payload[UnknownFields] });
   }
 
-  decode(buffer: ProtoBuffer | Uint8Array): U & UnknownFieldsProp {
-    const payload = this._parent.decode(buffer);
-    return Object.assign(this._params.decode(payload), { [UnknownFields]: payload[UnknownFields] });
+  safeEncode(value: U, options?: ProtoBuffer | EncodeOptions) {
+    return safely(() => this.encode(value, options), EncodeError);
   }
 
-  length(value: U): number {
-    return this._parent.length(this._params.encode(value));
+  safeDecode(buffer: ProtoBuffer | Uint8Array, options?: DecodeOptions) {
+    return safely(() => this.decode(buffer, options), DecodeError);
   }
 
-  transform<V extends {}>(params: TransformParameters<U, V>): IMessage<T, V> {
+  length(value: U, options?: EncodeOptions): number {
+    return this._parent.length(this._params.encode(value, options), options);
+  }
+
+  get default() { return this._params.default; }
+
+  isDefault(value: U) {
+    return value === undefined || value === null;
+  }
+
+  validate(value: U, path?: Path): ValidationIssue[] {
+    return this._parent.validate(this._params.encode(value), path);
+  }
+
+  toJSON(value: U, options?: ToJSONOptions): JsonValue {
+    if (this._params.toJSON) return this._params.toJSON(value, options);
+    return this._parent.toJSON(this._params.encode(value), options);
+  }
+
+  fromJSON(json: JsonValue, options?: FromJSONOptions): U {
+    if (this._params.fromJSON) return this._params.fromJSON(json, options);
+    return this._params.decode(this._parent.fromJSON(json, options));
+  }
+
+  transform<V>(params: TransformParameters<U, V>): IMessage<T, V> {
     return new MessageTransformer<T, V>(this, params);
   }
 
   get fields() { return this._parent.fields; }
 }
 
+/** A message resolved on first use, for recursive & mutually recursive schemas. As such structures
+ * would be infinitely deep, absent lazy submessages decode as `undefined` even when required.
+ */
+export class LazyMessage<U> implements IMessage<any, U> {
+  readonly [InferType]: U = undefined as any;
+  readonly type = 'message';
+  #message: IMessage<any, U> | undefined;
+
+  constructor(private readonly _resolve: () => IMessage<any, U>) {}
+
+  /** The resolved message. */
+  get message(): IMessage<any, U> {
+    return this.#message ??= this._resolve();
+  }
+
+  encode(value: U, options?: ProtoBuffer | EncodeOptions) {
+    return this.message.encode(value, options);
+  }
+
+  decode(buffer: ProtoBuffer | Uint8Array, options?: DecodeOptions): U & UnknownFieldsProp {
+    return this.message.decode(buffer, options);
+  }
+
+  safeEncode(value: U, options?: ProtoBuffer | EncodeOptions) {
+    return this.message.safeEncode(value, options);
+  }
+
+  safeDecode(buffer: ProtoBuffer | Uint8Array, options?: DecodeOptions) {
+    return this.message.safeDecode(buffer, options);
+  }
+
+  length(value: U, options?: EncodeOptions): number {
+    return this.message.length(value, options);
+  }
+
+  get default(): U { return undefined as U; }
+
+  isDefault(value: U) {
+    return value === undefined || value === null || this.message.isDefault(value);
+  }
+
+  validate(value: U, path?: Path): ValidationIssue[] {
+    return this.message.validate(value, path);
+  }
+
+  toJSON(value: U, options?: ToJSONOptions): JsonValue {
+    return this.message.toJSON(value, options);
+  }
+
+  fromJSON(json: JsonValue, options?: FromJSONOptions): U {
+    return this.message.fromJSON(json, options);
+  }
+
+  transform<V>(params: TransformParameters<U, V>): IMessage<any, V> {
+    return new MessageTransformer<any, V>(this, params);
+  }
+
+  get fields() { return this.message.fields; }
+}
+
+/** Run `fn`, capturing any error as a failed result. */
+function safely<T>(fn: () => T, ErrorType: typeof EncodeError | typeof DecodeError): SafeResult<T> {
+  try {
+    return { success: true, data: fn() };
+  } catch (error) {
+    const hpbError = toHiprotoError(error, ErrorType);
+    const issues = hpbError instanceof ValidationError
+      ? hpbError.issues
+      : [{ path: hpbError.path, message: hpbError.reason }];
+    return { success: false, error: hpbError, issues };
+  }
+}
+
+function prefixIssues(issues: ValidationIssue[], path: Path) {
+  return issues.map(issue => ({ ...issue, path: [...path, ...issue.path] }));
+}
+
+/** Run the refinements of a field. When recursive, also validates the values of submessage fields. */
+function checkField(schema: FieldSchema<any, any>, value: any, path: Path, issues: ValidationIssue[], recursive: boolean) {
+  if (value === undefined || value === null) return;
+  checkRefinements(schema._refinements, value, path, issues);
+
+  // submessages of transformed fields cannot be validated as their values differ
+  const codec = schema.codec as Partial<SubmessageCodec<any>>;
+  if (!recursive || !codec.message) return;
+  if (schema._map) {
+    const valueSchema = codec.message.fields.value as FieldSchema<any, any>;
+    const entries = value instanceof Map ? Array.from(value.entries()) : Object.entries(value);
+    for (const [key, entry] of entries) {
+      checkField(valueSchema, entry, [...path, typeof key === 'number' ? key : String(key)], issues, recursive);
+    }
+  } else if (schema._repeated !== Repeatedness.None) {
+    value.forEach((item: any, i: number) => issues.push(...codec.message!.validate(item, [...path, i])));
+  } else {
+    issues.push(...codec.message.validate(value, path));
+  }
+}
+
+/** Attribute errors raised while parsing the JSON of a field to the field. */
+function fromJSONAt<V>(path: Path, parse: () => V): V {
+  try {
+    return parse();
+  } catch (error) {
+    throw toHiprotoError(error, DecodeError).within(path);
+  }
+}
+
+/** Sentinel for values which have been moved to the unknown fields. */
+const Unrecognized = Symbol('Unrecognized');
+
+/** Decode a single value of the given field, which arrived with the given wire type. Unrecognized
+ * values of closed enums are moved to the unknown fields instead, in which case `Unrecognized` is
+ * returned.
+ */
+function decodeValue(schema: FieldSchema<any, any>, wiretype: WireType, buffer: ProtoBuffer, unknownFields: any, options: DecodeOptions) {
+  const verifyUtf8 = schema._features?.utf8_validation === 'verify';
+  if (!!options._verifyUtf8 !== verifyUtf8) options = { ...options, _verifyUtf8: verifyUtf8 };
+  // delimited submessages are accepted regardless of their features, like packed & expanded fields
+  if (wiretype === WireType.SGroup)
+    return decodeGroup(schema, buffer.readGroup(schema.index), options);
+
+  const definition = (getBaseCodec(schema.codec) as EnumCodec).definition;
+  if (definition && (definition.closed || schema._features?.enum_type === 'closed')) {
+    const offset = buffer.offset;
+    const value = buffer.readVarint();
+    if (!definition.has(Number(value))) {
+      pushValue(unknownFields, schema.index, { index: schema.index, wiretype: WireType.Varint, value });
+      return Unrecognized;
+    }
+    buffer.offset = offset;
+  }
+  return schema.codec.decode(buffer, options);
+}
+
+/** Encode a single value of the given field, including its header. Delimited submessages are
+ * enclosed in start & end group tags rather than prefixed with their length.
+ */
+function encodeValue(schema: FieldSchema<any, any>, value: any, buffer: ProtoBuffer, options: EncodeOptions) {
+  if (!isDelimited(schema)) {
+    buffer.writeFieldHeader(schema.index, schema.wiretype);
+    schema.codec.encode(value, buffer, options);
+    return;
+  }
+  const scratch = new ProtoBuffer();
+  schema.codec.encode(value, scratch, options);
+  buffer.writeFieldHeader(schema.index, WireType.SGroup);
+  buffer.writeBytes(scratch.seek(0).readWireType(WireType.Len) as Bytes);
+  buffer.writeFieldHeader(schema.index, WireType.EGroup);
+}
+
+/** Get the length of a single value of the given field, including its header. */
+function valueLength(schema: FieldSchema<any, any>, value: any, options: EncodeOptions) {
+  if (!isDelimited(schema)) return schema.length(value, options);
+  // strip the length prefix from the length of the contents
+  const length = schema.codec.length(value, options);
+  let prefix = 1;
+  while (ProtoBuffer.varintLength(length - prefix) !== prefix) prefix++;
+  return 2 * ProtoBuffer.fieldHeaderLength(schema.index) + length - prefix;
+}
+
+/** Whether the given field is a submessage encoded as a group, as per its `message_encoding`. */
+export function isDelimited(schema: FieldSchema<any, any>) {
+  return schema._features?.message_encoding === 'delimited' && !schema._map && isSubmessage(schema);
+}
+
+/** Whether a field may arrive with the given wire type. Scalars may additionally arrive packed,
+ * except for *one of* members, and submessages delimited.
+ */
+function isExpectedWireType(schema: FieldSchema<any, any>, wiretype: WireType, packable: boolean) {
+  const expected = schema.codec.wiretype;
+  return wiretype === expected
+    || (packable && wiretype === WireType.Len && expected !== WireType.Len)
+    || (wiretype === WireType.SGroup && !schema._map && isSubmessage(schema));
+}
+
+/** Whether the given field is a submessage. Multiple occurrences of a non-repeated submessage are
+ * merged rather than replaced.
+ */
+function isSubmessage(schema: FieldSchema<any, any>) {
+  return !!(getBaseCodec(schema.codec) as SubmessageCodec<any>).message;
+}
+
+/** Whether a field is encoded whenever it is set, even to its default value. Singular submessages
+ * always track their presence, regardless of their features.
+ */
+function hasExplicitPresence(schema: FieldSchema<any, any>) {
+  return !!schema._optional || (isSubmessage(schema) && !schema._map && schema._repeated === Repeatedness.None);
+}
+
+/** Whether the field of a decoded value was absent from the wire data & still holds the default it
+ * was decoded as.
+ */
+function isAbsent(value: any, field: string) {
+  const absent: Map<string, unknown> | undefined = value[AbsentFields];
+  return !!absent?.has(field) && Object.is(absent.get(field), value[field]);
+}
+
+/** Set a decoded field, which is present even if a previous occurrence of its message lacked it. */
+function setPresent(payload: any, field: string, value: unknown) {
+  payload[field] = value;
+  payload[AbsentFields]?.delete(field);
+}
+
+/** Decode the contents of a group, which the codec of the submessage reads length prefixed. */
+function decodeGroup(schema: FieldSchema<any, any>, contents: Bytes, options: DecodeOptions) {
+  const merged = new ProtoBuffer(new Uint8Array(ProtoBuffer.varintLength(contents.length) + contents.length));
+  merged.writeVarint(contents.length);
+  merged.writeBytes(contents.toUint8Array());
+  return schema.codec.decode(merged.seek(0), options);
+}
+
+/** Decode the occurrences of an extension, given as byte ranges of `buffer` including their headers.
+ * Multiple occurrences are decoded as their concatenation, which merges & repeats them like fields.
+ */
+function decodeExtension(extension: Extension<any>, buffer: ProtoBuffer, ranges: [start: number, end: number][], options: DecodeOptions) {
+  const end = buffer.offset;
+  let bytes: ProtoBuffer;
+  if (ranges.length === 1) {
+    // decode in place to retain the offsets of errors
+    const [[start, end]] = ranges as [[number, number]];
+    bytes = buffer.seek(start).slice(end - start);
+  } else {
+    bytes = new ProtoBuffer(new Uint8Array(ranges.reduce((acc, [start, end]) => acc + end - start, 0)));
+    for (const [start, end] of ranges) {
+      bytes.writeBytes(buffer.seek(start).readBytes(end - start));
+    }
+    bytes.seek(0);
+  }
+  buffer.seek(end);
+  return extension.message.decode(bytes, { ...options, unknownFields: 'keep' });
+}
+
+/** Get the extensions set on a value, optionally in ascending order of their indices. */
+function getExtensions(value: UnknownFieldsProp, sorted: boolean) {
+  const extensions = Array.from(value[Extensions] ?? []);
+  return sorted ? extensions.sort(([a], [b]) => a.index - b.index) : extensions;
+}
+
+/** Flatten the unknown fields of a value, including repeated occurrences. */
+function getUnknownFields(value: UnknownFieldsProp): UnknownField[] {
+  return Object.values(value[UnknownFields] ?? {}).flat();
+}
+
+/** Group raw unknown fields by the key of the known field preceding them, retaining their order. */
+function groupRawUnknownFields(fields: RawUnknownField[] | undefined) {
+  if (!fields) return;
+  const groups = new Map<string | undefined, Uint8Array[]>();
+  for (const { after, bytes } of fields) {
+    let group = groups.get(after);
+    if (!group) groups.set(after, group = []);
+    group.push(bytes);
+  }
+  return groups;
+}
+
+/** Write the raw unknown fields following the given known field, removing them from `groups`. */
+function writeRawUnknownFields(buffer: ProtoBuffer, groups: Map<string | undefined, Uint8Array[]> | undefined, after: string | undefined) {
+  const group = groups?.get(after);
+  if (!group) return;
+  for (const bytes of group) {
+    buffer.writeBytes(bytes);
+  }
+  groups!.delete(after);
+}
+
 function pushValue(obj: any, key: PropertyKey, value: any) {
   if (obj[key]) {
     if (!Array.isArray(obj[key]))
@@ -234,13 +1180,196 @@ function pushValue(obj: any, key: PropertyKey, value: any) {
     obj[key] = value;
 }
 
+/** Get the member of a *one of* that is currently set on `value`, if any. Unlike regular fields,
+ * a set member is always encoded, even if it holds its default value.
+ */
+function getOneOfMember(oneof: IOneOf<string, Record<string, FieldSchema<any, any>>>, field: string, value: any) {
+  if (!value) return;
+  const name = value[oneof.prop];
+  if (name === undefined) return;
+  const schema = oneof.fields[name];
+  if (!schema)
+    throw new EncodeError(`Unknown member ${name} of one of ${field}`);
+  return { name, schema, value: value[name] ?? schema._default ?? schema.codec.default };
+}
+
+/** Get the value of a field when it is absent from the wire data. */
+export function getDefaultValue(schema: MessageFields[string]) {
+  if (isOneOf(schema)) return undefined;
+  if (schema._map) return schema._map === 'record' ? {} : new Map();
+  if (schema._repeated !== Repeatedness.None) return [];
+  // custom defaults are copied, so that values decoded from the same schema do not share objects
+  if (schema._default !== undefined)
+    return typeof schema._default === 'object' ? structuredClone(schema._default) : schema._default;
+  // transformed messages decode as their default, e.g. `null` for wrappers, while absent messages
+  // remain absent unless required to be populated
+  const { message } = schema.codec as Partial<SubmessageCodec<any>>;
+  if (message instanceof MessageTransformer) return message.default;
+  if (schema._optional) return undefined;
+  return message instanceof Message && !schema._required ? undefined : schema.codec.default;
+}
+
+/** Whether the given value of a field is its default value, i.e. it would not be encoded at all. */
+export function isDefaultValue(schema: MessageFields[string], value: any) {
+  if (isOneOf(schema)) return value === undefined;
+  if (value === undefined || value === null) return true;
+  // fields with explicit presence are present whenever set, even to their custom default
+  if (schema._optional) return false;
+  if (schema._default !== undefined) return isEqualValue(schema, value, schema._default);
+  if (hasExplicitPresence(schema)) return false;
+  if (schema._map) return (value instanceof Map ? value.size : Object.keys(value).length) === 0;
+  if (schema._repeated !== Repeatedness.None) return value.length === 0;
+  return schema.codec.isDefault(value);
+}
+
+/** Whether two values of a field are equal. Objects, such as bytes & submessages, are compared by
+ * their encoding.
+ */
+function isEqualValue(schema: FieldSchema<any, any>, a: any, b: any) {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object') return false;
+  const encode = (value: any) => {
+    const buffer = new ProtoBuffer();
+    schema.codec.encode(value, buffer);
+    return buffer.toShrunk().toHex();
+  };
+  return encode(a) === encode(b);
+}
+
+/** Get the entries of a map field's value as `{ key, value }` pairs to be passed to the entry codec.
+ * Record keys are converted back to the key schema's type.
+ */
+function getMapEntries(schema: FieldSchema<any, any>, value: any): { key: any, value: any }[] {
+  if (!value) return [];
+  if (value instanceof Map)
+    return Array.from(value.entries()).map(([key, value]) => ({ key, value }));
+  const keyType = (schema.codec as SubmessageCodec<any>).message.fields.key.type;
+  return Object.entries(value).map(([key, value]) => ({ key: fromRecordKey(keyType, key), value }));
+}
+
+/** Order map keys of the same type: numerically, lexicographically, or `false` before `true`. */
+function compareMapKeys(a: any, b: any) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function fromRecordKey(keyType: string, key: string) {
+  switch (keyType) {
+    case 'bool':
+      return key === 'true';
+    case 'string':
+      return key;
+    case 'int64':
+    case 'uint64':
+    case 'sint64':
+    case 'fixed64':
+    case 'sfixed64':
+      return BigInt(key);
+    default:
+      return Number(key);
+  }
+}
+
+/** Get the name of the field in the `.proto` definition, which defaults to its key. */
+export function getProtoName(schema: FieldSchema<any, any>, key: string) {
+  return schema._name ?? key;
+}
+
+function getJsonName(schema: FieldSchema<any, any>, key: string, useProtoNames: boolean) {
+  const name = getProtoName(schema, key);
+  return useProtoNames ? name : schema._jsonName ?? toJsonName(name);
+}
+
+function fieldToJSON(schema: FieldSchema<any, any>, value: any, options: ToJSONOptions): JsonValue {
+  if (schema._map) {
+    // map keys are always strings in JSON
+    const valueSchema = (schema.codec as SubmessageCodec<any>).message.fields.value as FieldSchema<any, any>;
+    return Object.fromEntries(
+      getMapEntries(schema, value).map(({ key, value }) => [String(key), valueSchema.codec.toJSON(value, options)]),
+    );
+  }
+  if (schema._repeated !== Repeatedness.None)
+    return (value as any[]).map(item => schema.codec.toJSON(item, options));
+  return schema.codec.toJSON(value, options);
+}
+
+function fieldFromJSON(schema: FieldSchema<any, any>, json: JsonValue, options: FromJSONOptions) {
+  if (schema._map) {
+    expectJson(json, 'object');
+    const { key: keySchema, value: valueSchema } = (schema.codec as SubmessageCodec<any>).message.fields as Record<string, FieldSchema<any, any>>;
+    const entries = Object.entries(json as Record<string, JsonValue>).map(([key, value]) => [key, valueSchema!.codec.fromJSON(value, options)]);
+    if (schema._map === 'record')
+      return Object.fromEntries(entries);
+    return new Map(entries.map(([key, value]) => [fromRecordKey(keySchema!.type, key), value]));
+  }
+  if (schema._repeated !== Repeatedness.None) {
+    expectJson(json, 'array');
+    return (json as JsonValue[]).map(item => schema.codec.fromJSON(item, options));
+  }
+  return schema.codec.fromJSON(json, options);
+}
+
 function getEncodeMode(schema: FieldSchema<any, any>) {
-  switch (schema._repeated) {
-    case Repeatedness.None:
-      return EncodeMode.Single;
-    case Repeatedness.Default:
-      return schema.codec.wiretype === WireType.Len ? EncodeMode.Expanded : EncodeMode.Packed;
-    case Repeatedness.Expanded:
-      return EncodeMode.Expanded;
+  if (schema._map) return EncodeMode.Map;
+  if (schema._repeated === Repeatedness.None) return EncodeMode.Single;
+  return isPacked(schema) ? EncodeMode.Packed : EncodeMode.Expanded;
+}
+
+/** Whether a repeated field is encoded packed. Only scalars can be packed, which they are unless
+ * created with `repeated.expanded` or their `repeated_field_encoding` is `expanded`.
+ */
+export function isPacked(schema: FieldSchema<any, any>) {
+  return schema._repeated === Repeatedness.Default
+    && schema.codec.wiretype !== WireType.Len
+    && schema._features?.repeated_field_encoding !== 'expanded';
+}
+
+/** Resolve the features of the fields of a message with the given syntax. Fields are left as-is if
+ * neither the message has a syntax nor any field overrides features.
+ */
+function resolveFields<T extends MessageFields>(fields: Readonly<T>, syntax: Syntax | undefined): Readonly<T> {
+  const hasFeatures = (field: MessageFields[string]) => isOneOf(field)
+    ? Object.values(field.fields as Record<string, FieldSchema<any, any>>).some(member => member._features)
+    : !!field._features;
+  if (syntax === undefined && !Object.values(fields).some(hasFeatures)) return fields;
+
+  const features = resolveFeatures(syntax);
+  const result: any = {};
+  for (const key in fields) {
+    const field: MessageFields[string] = fields[key];
+    if (isOneOf(field)) {
+      const members = Object.entries(field.fields as Record<string, FieldSchema<any, any>>)
+        .map(([member, schema]) => [member, resolveField(schema, features, true)]);
+      result[key] = { ...field, fields: Object.fromEntries(members) };
+    } else {
+      result[key] = resolveField(field, features, false);
+    }
+  }
+  return result;
+}
+
+/** Resolve the features of a field from those of its message, applying field presence to its schema.
+ * Map entries inherit the features of their map, except for presence, as keys & values are always
+ * present.
+ */
+function resolveField(schema: FieldSchema<any, any>, messageFeatures: FeatureSet, member: boolean) {
+  const features: FeatureSet = { ...messageFeatures, ...schema._features };
+  if (schema._map) {
+    const { key, value } = (schema.codec as SubmessageCodec<any>).message.fields as Record<string, FieldSchema<any, any>>;
+    const entry = { ...features, field_presence: 'implicit' as const };
+    return withParameters(schema, {
+      _features: features,
+      codec: codecs.submessage(new Message({
+        key: withParameters(key!, { _features: { ...entry, ...key!._features } }),
+        value: withParameters(value!, { _features: { ...entry, ...value!._features } }),
+      })),
+    });
   }
+  // *one of* members & repeated fields have no presence of their own, while submessages always do
+  if (member || schema._repeated !== Repeatedness.None || (features.field_presence === 'implicit' && !isSubmessage(schema)))
+    return withParameters(schema, { _features: features });
+  return withParameters(schema, {
+    _features: features,
+    _optional: true,
+    _required: schema._required || features.field_presence === 'legacy_required',
+  });
 }
@@ -0,0 +1,300 @@
+import { describe, expect, test } from 'bun:test';
+import { ParseError } from './errors';
+import type { IMessage, Message } from './message';
+import { fromProto } from './parser';
+import { toProto } from './printer';
+import { ProtoBuffer } from './protobuffer';
+import { v } from './schema';
+
+const roundtrip = (schema: IMessage<any, any>, value: any) => schema.decode(schema.encode(value).seek(0));
+
+describe('fromProto', () => {
+  test('scalars', () => {
+    const registry = fromProto(`
+      syntax = "proto3";
+      package test.v1;
+
+      // a comment
+      message Foo {
+        string name = 1;
+        int64 amount = 2 [json_name = "amt"];
+        repeated uint32 ids = 3;
+        bytes data = 4;
+        /* another
+           comment */
+        optional bool flag = 5;
+      }
+    `);
+    const Foo = registry['test.v1.Foo']!;
+    const ref = v.message({
+      name: v.string(1),
+      amount: v.int64(2),
+      ids: v.repeated.uint32(3),
+      data: v.bytes(4),
+      flag: v.bool(5),
+    });
+
+    const value = { name: 'hello', amount: 42n, ids: [1, 2, 3], flag: true };
+    expect(Foo.encode(value).toHex()).toBe(ref.encode(value).toHex());
+    expect(Foo.decode(ref.encode(value).seek(0))).toMatchObject(value);
+  });
+
+  test('nested types & enums', () => {
+    const registry = fromProto(`
+      syntax = "proto3";
+      package test;
+
+      enum Status { STATUS_UNSPECIFIED = 0; STATUS_OK = 1; }
+
+      message Outer {
+        message Inner {
+          string value = 1;
+        }
+        enum Kind { KIND_UNSPECIFIED = 0; KIND_A = 1; }
+        Inner inner = 1;
+        repeated Inner inners = 2;
+        Kind kind = 3;
+        .test.Status status = 4;
+      }
+    `);
+    expect(Object.keys(registry).sort()).toEqual(['test.Outer', 'test.Outer.Inner']);
+
+    const Outer = registry['test.Outer']!;
+    const value = { inner: { value: 'a' }, inners: [{ value: 'b' }], kind: 1, status: 1 };
+    expect(roundtrip(Outer, value)).toMatchObject(value);
+    expect(Outer.toJSON(value)).toEqual({ inner: { value: 'a' }, inners: [{ value: 'b' }], kind: 'KIND_A', status: 'STATUS_OK' });
+  });
+
+  test('oneofs & maps', () => {
+    const registry = fromProto(`
+      syntax = "proto3";
+      message Foo {
+        oneof choice {
+          string a = 1;
+          int32 b = 2;
+        }
+        map<string, int32> counts = 3;
+      }
+    `, { oneofProp: 'type', maps: 'record' });
+    const Foo = registry['Foo']!;
+    const value = { choice: { type: 'b', b: 42 }, counts: { x: 1, y: 2 } };
+    expect(roundtrip(Foo, value)).toMatchObject(value);
+
+    // the default property does not collide with members
+    const Bar = fromProto('syntax = "proto3"; message Bar { oneof sum { string kind = 1; int32 b = 2; } }')['Bar']!;
+    const sum = { sum: { _kind: 'kind', kind: 'hello' } };
+    expect(roundtrip(Bar, sum)).toMatchObject(sum);
+  });
+
+  test('json_name', () => {
+    const source = 'syntax = "proto3"; message Foo { int64 x = 1 [json_name = "xx"]; map<string, int32> m = 2 [json_name = "mm"]; }';
+    const Foo = fromProto(source)['Foo']!;
+    expect(Foo.toJSON({ x: 1n, m: new Map([['a', 1]]) })).toEqual({ xx: '1', mm: { a: 1 } });
+    expect(toProto({ Foo })).toContain('  int64 x = 1 [json_name = "xx"];');
+    expect(toProto({ Foo })).toContain('  map<string, int32> m = 2 [json_name = "mm"];');
+  });
+
+  test('proto2 labels & packing', () => {
+    const registry = fromProto(`
+      syntax = "proto2";
+      message Foo {
+        required string name = 1;
+        repeated int32 expanded = 2;
+        repeated int32 packed = 3 [packed = true];
+      }
+    `);
+    const Foo = registry['Foo']!;
+    const ref = v.message({
+      name: v.string(1).required(),
+      expanded: v.repeated.expanded.int32(2),
+      packed: v.repeated.int32(3),
+    });
+    const value = { name: 'a', expanded: [1, 2], packed: [3, 4] };
+    expect(Foo.encode(value).toHex()).toBe(ref.encode(value).toHex());
+  });
+
+  test('defaults', () => {
+    const registry = fromProto(`
+      syntax = "proto2";
+      enum Kind { KIND_A = 0; KIND_B = 1; }
+      message Foo {
+        optional int32 count = 1 [default = -5];
+        optional string name = 2 [default = "anon"];
+        optional bytes data = 3 [default = "\\x01\\x02"];
+        optional Kind kind = 4 [default = KIND_B];
+        optional int64 big = 5 [default = 10];
+        optional bool flag = 6 [default = true];
+        optional int64 max = 7 [default = 9223372036854775807];
+        optional sint64 min = 8 [default = -9223372036854775808];
+        optional fixed64 hex = 9 [default = 0xFFFFFFFFFFFFFFFF];
+        optional uint64 oct = 10 [default = 01777777777777777777777];
+      }
+    `);
+    expect(registry['Foo']!.decode(new Uint8Array())).toMatchObject({
+      count: -5,
+      name: 'anon',
+      data: new Uint8Array([1, 2]),
+      kind: 1,
+      big: 10n,
+      flag: true,
+      max: 9223372036854775807n,
+      min: -9223372036854775808n,
+      hex: 18446744073709551615n,
+      oct: 18446744073709551615n,
+    });
+    expect(() => fromProto('syntax = "proto2"; message Foo { optional int32 a = 1 [default = "x"]; }')).toThrow('Invalid default value of field a: x');
+  });
+
+  test('presence', () => {
+    const registry = fromProto(`
+      syntax = "proto3";
+      message Foo {
+        optional int32 explicit = 1;
+        int32 implicit = 2;
+      }
+    `);
+    const Foo = registry['Foo']!;
+    expect(Foo.encode({ explicit: 0, implicit: 0 }).toShrunk().toHex()).toBe('0800');
+    expect(roundtrip(Foo, {})).toMatchObject({ explicit: undefined, implicit: 0 });
+
+    const Bar = fromProto(`
+      syntax = "proto2";
+      message Bar {
+        optional string name = 1;
+        required int32 id = 2;
+      }
+    `)['Bar']!;
+    expect(Bar.encode({ name: '', id: 0 }).toShrunk().toHex()).toBe('0a001000');
+    expect(roundtrip(Bar, {})).toMatchObject({ name: undefined, id: undefined });
+
+    // absent fields with defaults decode as them, yet are not re-encoded
+    const A = fromProto('syntax = "proto2"; message A { optional int32 x = 1 [default = 7]; optional string y = 2; }')['A']!;
+    const decoded = A.decode(ProtoBuffer.fromHex('120161'), { unknownFields: 'preserve' });
+    expect(decoded).toMatchObject({ x: 7, y: 'a' });
+    expect((A as Message<any>).has(decoded, 'x')).toBe(false);
+    expect(A.encode(decoded).toShrunk().toHex()).toBe('120161');
+    decoded.x = 8;
+    expect(A.encode(decoded).toShrunk().toHex()).toBe('0808120161');
+  });
+
+  test('groups', () => {
+    const registry = fromProto(`
+      syntax = "proto2";
+      message Search {
+        optional group Result = 1 {
+          optional string url = 2;
+        }
+        repeated group Page = 3 {
+          optional int32 number = 4;
+        }
+      }
+    `);
+    const Search = registry['Search']!;
+    const value = { result: { url: 'a' }, page: [{ number: 1 }] };
+    expect(Search.encode(value).toShrunk().toHex()).toBe('0b1201610c' + '1b20011c');
+    expect(roundtrip(Search, value)).toMatchObject(value);
+    expect(registry['Search.Result']).toBeDefined();
+    expect(() => fromProto('syntax = "proto2"; message Foo { optional group result = 1 {} }')).toThrow('must start with a capital letter');
+  });
+
+  test('editions', () => {
+    const registry = fromProto(`
+      edition = "2023";
+      package test;
+      option features.field_presence = IMPLICIT;
+
+      enum Kind {
+        option features.enum_type = CLOSED;
+        KIND_A = 0;
+        KIND_B = 1;
+      }
+
+      message Msg {
+        int32 count = 1;
+        int32 limit = 2 [features.field_presence = EXPLICIT];
+        repeated int32 ids = 3 [features.repeated_field_encoding = EXPANDED];
+        Msg child = 4 [features.message_encoding = DELIMITED];
+        Kind kind = 5;
+      }
+    `);
+    const Msg = registry['test.Msg']!;
+    const value = { count: 0, limit: 0, ids: [1, 2], child: { count: 1 } };
+    expect(Msg.encode(value).toShrunk().toHex()).toBe('1000' + '18011802' + '23' + '0801' + '24');
+    expect(roundtrip(Msg, value)).toMatchObject(value);
+
+    // unrecognized values of the closed enum are moved to the unknown fields
+    expect(Msg.decode(new Uint8Array([0x28, 0x05]))).toMatchObject({ kind: 0 });
+
+    expect(() => fromProto('edition = "2024";')).toThrow(ParseError);
+  });
+
+  test('message features', () => {
+    const registry = fromProto(`
+      edition = "2023";
+      package test;
+
+      message Msg {
+        option features.field_presence = IMPLICIT;
+        int32 count = 1;
+        int32 limit = 2 [features.field_presence = EXPLICIT];
+
+        message Nested {
+          int32 count = 1;
+        }
+        Nested nested = 3;
+      }
+
+      message Other {
+        int32 count = 1;
+      }
+    `);
+    // message features apply to its fields & nested messages, but not to other messages
+    expect(registry['test.Msg']!.encode({ count: 0, limit: 0, nested: {} }).toShrunk().toHex()).toBe('1000' + '1a00');
+    expect(registry['test.Msg.Nested']!.encode({ count: 0 }).toShrunk().toHex()).toBe('');
+    expect(registry['test.Other']!.encode({ count: 0 }).toShrunk().toHex()).toBe('0800');
+  });
+
+  test('imports', () => {
+    const registry = fromProto(`
+      syntax = "proto3";
+      package app;
+      import "base/coin.proto";
+
+      message Wallet {
+        repeated base.Coin coins = 1;
+      }
+    `, {
+      imports: {
+        'base/coin.proto': `
+          syntax = "proto3";
+          package base;
+          message Coin { string denom = 1; string amount = 2; }
+        `,
+      },
+    });
+    expect(Object.keys(registry).sort()).toEqual(['app.Wallet', 'base.Coin']);
+
+    const value = { coins: [{ denom: 'uatom', amount: '1' }] };
+    expect(roundtrip(registry['app.Wallet']!, value)).toMatchObject(value);
+    expect(() => fromProto('import "missing.proto";')).toThrow('Failed to resolve import missing.proto');
+  });
+
+  test('recursion', () => {
+    const registry = fromProto(`
+      syntax = "proto3";
+      message Node {
+        string name = 1;
+        repeated Node children = 2;
+        Node parent = 3;
+      }
+    `);
+    const value = { name: 'a', children: [{ name: 'b', children: [{ name: 'c' }] }], parent: { name: 'root' } };
+    expect(roundtrip(registry['Node']!, value)).toMatchObject(value);
+  });
+
+  test('errors', () => {
+    expect(() => fromProto('message Foo {\n  string = 1;\n}')).toThrow(ParseError);
+    expect(() => fromProto('message Foo {\n  string = 1;\n}')).toThrow('(<source>:2:10)');
+    expect(() => fromProto('message Foo { Bar bar = 1; }')).toThrow('Unknown type Bar');
+  });
+});
@@ -0,0 +1,803 @@
+import type { EnumCodec } from './codecs';
+import { EnumDefinition } from './enums';
+import { ParseError } from './errors';
+import { resolveFeatures, type FeatureSet, type Syntax } from './features';
+import type { IMessage, MessageFields } from './message';
+import { v, type FieldSchema, type MapKind } from './schema';
+
+/** Loads the source of an imported `.proto` file by its import path, e.g. `cosmos/base/v1beta1/coin.proto`. */
+export type ProtoLoader = (path: string) => string | undefined;
+
+/** Messages keyed by their fully qualified name, e.g. `cosmos.base.v1beta1.Coin`. */
+export type ProtoRegistry = Record<string, IMessage<any, any>>;
+
+export interface FromProtoOptions {
+  /** Resolves imports, either through a loader or a map of import paths to sources. */
+  imports?: ProtoLoader | Record<string, string>;
+  /** Name of the discriminating property of *one of*'s. Defaults to `kind`, which is prefixed with
+   * underscores for *one of*'s with a member of the same name.
+   */
+  oneofProp?: string;
+  /** Whether map fields decode as `Map`s or plain objects. Defaults to `map`. */
+  maps?: MapKind;
+}
+
+type OptionValue = string | number | bigint | boolean;
+
+interface Token {
+  type: 'ident' | 'int' | 'float' | 'string' | 'symbol';
+  value: string;
+  line: number;
+  column: number;
+}
+
+interface FieldNode {
+  kind: 'field';
+  label?: 'optional' | 'required' | 'repeated';
+  type: string;
+  name: string;
+  index: number;
+  options: Record<string, OptionValue>;
+  /** Whether the field is a group, whose type is a nested message of the same name. */
+  group?: boolean;
+}
+
+interface MapFieldNode {
+  kind: 'map';
+  keyType: string;
+  valueType: string;
+  name: string;
+  index: number;
+  options: Record<string, OptionValue>;
+}
+
+interface OneofNode {
+  kind: 'oneof';
+  name: string;
+  fields: FieldNode[];
+}
+
+interface MessageNode {
+  kind: 'message';
+  name: string;
+  fields: (FieldNode | MapFieldNode | OneofNode)[];
+  messages: MessageNode[];
+  enums: EnumNode[];
+  options: Record<string, OptionValue>;
+}
+
+interface EnumNode {
+  kind: 'enum';
+  name: string;
+  values: { name: string, number: number }[];
+  options: Record<string, OptionValue>;
+}
+
+interface FileNode {
+  syntax: Syntax;
+  package: string;
+  imports: string[];
+  messages: MessageNode[];
+  enums: EnumNode[];
+}
+
+/** A type definition along with the context it was declared in. */
+type TypeDefinition =
+  | { kind: 'message', node: MessageNode, scope: string, package: string, syntax: Syntax }
+  | { kind: 'enum', node: EnumNode, scope: string, package: string, syntax: Syntax };
+
+/** Fully qualified name & package of a parsed type. */
+export interface ParsedName {
+  name: string;
+  package: string;
+}
+
+/** Names of parsed messages & enums, keyed by their fields & definitions like the printer keys them. */
+const parsedNames = new WeakMap<object, ParsedName>();
+
+/** Get the name of a message or enum parsed by `fromProto`, by its fields or definition. */
+export function getParsedName(type: MessageFields | EnumDefinition<any>): ParsedName | undefined {
+  return parsedNames.get(type);
+}
+
+const SCALAR_TYPES = ['double', 'float', 'int32', 'int64', 'uint32', 'uint64', 'sint32', 'sint64', 'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'bool', 'string', 'bytes'] as const;
+type ScalarType = typeof SCALAR_TYPES[number];
+
+/** Parse `.proto` source into hiproto messages, keyed by their fully qualified names. Imports are
+ * resolved through `options.imports`, and their types are included in the registry as well.
+ *
+ * Services are skipped, as are options other than `packed`, `default` & Editions' `features`.
+ */
+export function fromProto(source: string, options: FromProtoOptions = {}): ProtoRegistry {
+  const load = getLoader(options.imports);
+  const definitions = new Map<string, TypeDefinition>();
+  const loaded = new Set<string>();
+
+  const addFile = (file: FileNode, path: string) => {
+    for (const imported of file.imports) {
+      if (loaded.has(imported)) continue;
+      loaded.add(imported);
+      const source = load(imported);
+      if (source === undefined)
+        throw new Error(`Failed to resolve import ${imported} in ${path}`);
+      addFile(new ProtoParser(source, imported).parseFile(), imported);
+    }
+    collectDefinitions(definitions, file, file.syntax, file.package, file.enums, file.messages);
+  };
+  addFile(new ProtoParser(source, '<source>').parseFile(), '<source>');
+
+  return new RegistryBuilder(definitions, options).build();
+}
+
+function getLoader(imports: FromProtoOptions['imports']): ProtoLoader {
+  if (!imports) return () => undefined;
+  if (typeof imports === 'function') return imports;
+  return (path) => imports[path];
+}
+
+function collectDefinitions(definitions: Map<string, TypeDefinition>, file: FileNode, syntax: Syntax, scope: string, enums: EnumNode[], messages: MessageNode[]) {
+  const qualify = (name: string) => scope ? `${scope}.${name}` : name;
+  for (const node of enums) {
+    addDefinition(definitions, qualify(node.name), { kind: 'enum', node, scope, package: file.package, syntax });
+  }
+  for (const node of messages) {
+    const fqn = qualify(node.name);
+    // message features apply to its fields & nested types, like file features do
+    const features = getFeatures(node.options);
+    const nested = typeof syntax === 'object' && Object.keys(features).length
+      ? { ...syntax, features: { ...syntax.features, ...features } }
+      : syntax;
+    addDefinition(definitions, fqn, { kind: 'message', node, scope, package: file.package, syntax: nested });
+    collectDefinitions(definitions, file, nested, fqn, node.enums, node.messages);
+  }
+}
+
+function addDefinition(definitions: Map<string, TypeDefinition>, fqn: string, definition: TypeDefinition) {
+  if (definitions.has(fqn))
+    throw new Error(`Duplicate type definition: ${fqn}`);
+  definitions.set(fqn, definition);
+}
+
+/** Builds hiproto messages & enums from collected type definitions. */
+class RegistryBuilder {
+  #messages = new Map<string, IMessage<any, any>>();
+  #enums = new Map<string, EnumDefinition<any>>();
+  /** Messages currently being built, to detect recursion. */
+  #building = new Set<string>();
+
+  constructor(
+    private readonly definitions: Map<string, TypeDefinition>,
+    private readonly options: FromProtoOptions,
+  ) {}
+
+  build(): ProtoRegistry {
+    const registry: ProtoRegistry = {};
+    for (const [fqn, definition] of this.definitions) {
+      if (definition.kind === 'message')
+        registry[fqn] = this.getMessage(fqn);
+    }
+    return registry;
+  }
+
+  getMessage(fqn: string): IMessage<any, any> {
+    const cached = this.#messages.get(fqn);
+    if (cached) return cached;
+
+    // recursive references resolve once the message is built
+    if (this.#building.has(fqn))
+      return v.lazy(() => this.#messages.get(fqn)!);
+    this.#building.add(fqn);
+
+    const definition = this.definitions.get(fqn) as Extract<TypeDefinition, { kind: 'message' }>;
+    const fields: MessageFields = {};
+    for (const field of definition.node.fields) {
+      switch (field.kind) {
+        case 'field':
+          fields[field.name] = this.getField(field, fqn);
+          break;
+        case 'map':
+          fields[field.name] = withJsonName(field, v.map(
+            field.index,
+            this.getField({ kind: 'field', type: field.keyType, name: 'key', index: 1, options: {} }, fqn),
+            this.getField({ kind: 'field', type: field.valueType, name: 'value', index: 2, options: {} }, fqn),
+            { as: this.options.maps ?? 'map' } as { as: 'map' },
+          ));
+          break;
+        case 'oneof':
+          fields[field.name] = v.oneof(
+            this.options.oneofProp ?? getOneofProp(field.fields),
+            Object.fromEntries(field.fields.map(member => [member.name, this.getField(member, fqn)])),
+          );
+          break;
+      }
+    }
+
+    const message = v.message(fields, { syntax: definition.syntax });
+    parsedNames.set(message.fields, { name: fqn, package: definition.package });
+    this.#building.delete(fqn);
+    this.#messages.set(fqn, message);
+    return message;
+  }
+
+  getEnum(fqn: string): EnumDefinition<any> {
+    const cached = this.#enums.get(fqn);
+    if (cached) return cached;
+
+    const definition = this.definitions.get(fqn) as Extract<TypeDefinition, { kind: 'enum' }>;
+    const result = new EnumDefinition(
+      Object.fromEntries(definition.node.values.map(({ name, number }) => [name, number])),
+      { closed: resolveFeatures(definition.syntax, getFeatures(definition.node.options)).enum_type === 'closed' },
+    );
+    parsedNames.set(result, { name: fqn, package: definition.package });
+    this.#enums.set(fqn, result);
+    return result;
+  }
+
+  getField(field: FieldNode, scope: string): FieldSchema<any, any> {
+    const factories: any = field.label === 'repeated' ? v.repeated : v;
+
+    let schema: any;
+    if (SCALAR_TYPES.includes(field.type as ScalarType)) {
+      schema = factories[field.type](field.index);
+    } else {
+      const fqn = this.resolve(field.type, scope);
+      const definition = this.definitions.get(fqn)!;
+      schema = definition.kind === 'enum'
+        ? factories.enum(field.index, this.getEnum(fqn))
+        : factories.submessage(field.index, this.getMessage(fqn));
+    }
+
+    // the syntax of the message determines the features of its fields, unless overridden
+    const features = getFeatures(field.options);
+    if (field.options.packed !== undefined)
+      features.repeated_field_encoding = field.options.packed ? 'packed' : 'expanded';
+    if (field.group)
+      features.message_encoding = 'delimited';
+    if (Object.keys(features).length) schema = schema.features(features);
+    if (field.options.default !== undefined) schema = schema.default(getDefault(field, schema));
+    schema = withJsonName(field, schema);
+
+    // singular proto2 fields & proto3 `optional` fields have explicit presence
+    switch (field.label) {
+      case 'optional': return schema.optional();
+      case 'required': return schema.optional().required();
+      default: return schema;
+    }
+  }
+
+  /** Resolve a type reference according to protobuf's scoping rules: relative names are searched
+   * from the innermost scope outwards, while names with a leading dot are fully qualified.
+   */
+  resolve(type: string, scope: string): string {
+    if (type.startsWith('.')) {
+      if (this.definitions.has(type.slice(1))) return type.slice(1);
+      throw new Error(`Unknown type ${type}`);
+    }
+
+    const [first] = type.split('.');
+    let current = scope;
+    while (true) {
+      const candidate = current ? `${current}.${first}` : first!;
+      if (this.definitions.has(candidate) || hasPrefix(this.definitions, candidate)) {
+        const fqn = current ? `${current}.${type}` : type;
+        if (this.definitions.has(fqn)) return fqn;
+      }
+      if (!current) break;
+      current = current.includes('.') ? current.slice(0, current.lastIndexOf('.')) : '';
+    }
+    throw new Error(`Unknown type ${type} in scope ${scope}`);
+  }
+}
+
+/** Apply the `json_name` option of a field. */
+function withJsonName<S extends { jsonName(jsonName: string): S }>(field: FieldNode | MapFieldNode, schema: S): S {
+  const { json_name } = field.options;
+  if (json_name === undefined) return schema;
+  if (typeof json_name !== 'string')
+    throw new Error(`Invalid json_name of field ${field.name}: ${json_name}`);
+  return schema.jsonName(json_name);
+}
+
+/** Get the default discriminating property of a *one of*, which must differ from its members' names. */
+function getOneofProp(members: FieldNode[]) {
+  let prop = 'kind';
+  while (members.some(member => member.name === prop)) prop = '_' + prop;
+  return prop;
+}
+
+/** Convert the `default` option of a field to a value of the field's type. */
+function getDefault(field: FieldNode, schema: FieldSchema<any, any>) {
+  const value = field.options.default!;
+  const invalid = () => new Error(`Invalid default value of field ${field.name}: ${value}`);
+  switch (schema.type) {
+    case 'enum': {
+      const result = (schema.codec as EnumCodec).definition?.valueOf(String(value));
+      if (result === undefined) throw invalid();
+      return result;
+    }
+    case 'string':
+      if (typeof value !== 'string') throw invalid();
+      return value;
+    case 'bytes':
+      // escapes of string literals decode to characters of the same code
+      if (typeof value !== 'string') throw invalid();
+      return Uint8Array.from(value, char => char.charCodeAt(0));
+    case 'bool':
+      if (typeof value !== 'boolean') throw invalid();
+      return value;
+    case 'int64':
+    case 'uint64':
+    case 'sint64':
+    case 'fixed64':
+    case 'sfixed64':
+      if (typeof value !== 'bigint' && (typeof value !== 'number' || !Number.isInteger(value))) throw invalid();
+      return BigInt(value);
+    default:
+      if (typeof value !== 'number' && typeof value !== 'bigint') throw invalid();
+      return Number(value);
+  }
+}
+
+/** Get the Editions features set by the given options, e.g. `features.field_presence = IMPLICIT`. */
+function getFeatures(options: Record<string, OptionValue>): Partial<FeatureSet> {
+  const features: Record<string, string> = {};
+  for (const [name, value] of Object.entries(options)) {
+    if (name.startsWith('features.')) features[name.slice('features.'.length)] = String(value).toLowerCase();
+  }
+  return features;
+}
+
+/** Whether any definition lives within the given package or message scope. */
+function hasPrefix(definitions: Map<string, TypeDefinition>, prefix: string) {
+  for (const fqn of definitions.keys()) {
+    if (fqn.startsWith(prefix + '.')) return true;
+  }
+  return false;
+}
+
+class ProtoParser {
+  #tokens: Token[];
+  #pos = 0;
+
+  constructor(source: string, private readonly path: string) {
+    this.#tokens = tokenize(source, path);
+  }
+
+  parseFile(): FileNode {
+    const file: FileNode = { syntax: 'proto2', package: '', imports: [], messages: [], enums: [] };
+    const options: Record<string, OptionValue> = {};
+
+    while (this.#peek()) {
+      const token = this.#next();
+      switch (token.value) {
+        case 'syntax': {
+          this.#expect('=');
+          const syntax = this.#expectString();
+          if (syntax !== 'proto2' && syntax !== 'proto3')
+            throw this.#error(`Unsupported syntax: ${syntax}`, token);
+          file.syntax = syntax;
+          this.#expect(';');
+          break;
+        }
+        case 'edition': {
+          this.#expect('=');
+          const edition = this.#expectString();
+          if (edition !== '2023')
+            throw this.#error(`Unsupported edition: ${edition}`, token);
+          file.syntax = { edition };
+          this.#expect(';');
+          break;
+        }
+        case 'package':
+          file.package = this.#expectFullIdent();
+          this.#expect(';');
+          break;
+        case 'import':
+          if (this.#peek()?.value === 'public' || this.#peek()?.value === 'weak') this.#next();
+          file.imports.push(this.#expectString());
+          this.#expect(';');
+          break;
+        case 'option': {
+          const [name, value] = this.#parseOption();
+          options[name] = value;
+          this.#expect(';');
+          break;
+        }
+        case 'message':
+          file.messages.push(this.#parseMessage());
+          break;
+        case 'enum':
+          file.enums.push(this.#parseEnum());
+          break;
+        case 'service':
+        case 'extend':
+          this.#expectFullIdent();
+          this.#skipBlock();
+          break;
+        case ';':
+          break;
+        default:
+          throw this.#error(`Unexpected token ${token.value}`, token);
+      }
+    }
+
+    // file features apply to all messages & enums of the file
+    if (typeof file.syntax === 'object')
+      file.syntax.features = getFeatures(options);
+    return file;
+  }
+
+  #parseMessage(name = this.#expectIdent()): MessageNode {
+    const node: MessageNode = { kind: 'message', name, fields: [], messages: [], enums: [], options: {} };
+    this.#expect('{');
+
+    while (!this.#accept('}')) {
+      const token = this.#peek();
+      if (!token) throw this.#error(`Unexpected end of file in message ${node.name}`);
+
+      switch (token.value) {
+        case 'message':
+          this.#next();
+          node.messages.push(this.#parseMessage());
+          break;
+        case 'enum':
+          this.#next();
+          node.enums.push(this.#parseEnum());
+          break;
+        case 'oneof':
+          this.#next();
+          node.fields.push(this.#parseOneof(node.messages));
+          break;
+        case 'map':
+          if (this.#peekAt(1)?.value !== '<') {
+            node.fields.push(this.#parseField(node.messages));
+            break;
+          }
+          this.#next();
+          node.fields.push(this.#parseMapField());
+          break;
+        case 'option': {
+          this.#next();
+          const [name, value] = this.#parseOption();
+          node.options[name] = value;
+          this.#expect(';');
+          break;
+        }
+        case 'reserved':
+        case 'extensions':
+          this.#skipStatement();
+          break;
+        case 'extend':
+          this.#next();
+          this.#expectFullIdent();
+          this.#skipBlock();
+          break;
+        case ';':
+          this.#next();
+          break;
+        default:
+          node.fields.push(this.#parseField(node.messages));
+      }
+    }
+
+    return node;
+  }
+
+  /** Parses a field. Messages declared by groups are added to `messages`. */
+  #parseField(messages: MessageNode[]): FieldNode {
+    let label: FieldNode['label'];
+    const token = this.#peek()!;
+    if (token.value === 'optional' || token.value === 'required' || token.value === 'repeated') {
+      label = token.value;
+      this.#next();
+    }
+
+    const type = this.#expectType();
+    if (type === 'group')
+      return this.#parseGroup(label, messages);
+    const name = this.#expectIdent();
+    this.#expect('=');
+    const index = this.#expectInt();
+    const options = this.#parseFieldOptions();
+    this.#expect(';');
+    return { kind: 'field', label, type, name, index, options };
+  }
+
+  /** Parses a group, which declares a nested message along with a delimited field of its type, named
+   * after the message in lowercase.
+   */
+  #parseGroup(label: FieldNode['label'], messages: MessageNode[]): FieldNode {
+    const token = this.#peek();
+    const name = this.#expectIdent();
+    if (!/^[A-Z]/.test(name))
+      throw this.#error(`Group names must start with a capital letter: ${name}`, token);
+    this.#expect('=');
+    const index = this.#expectInt();
+    const options = this.#parseFieldOptions();
+    messages.push(this.#parseMessage(name));
+    return { kind: 'field', label, type: name, name: name.toLowerCase(), index, options, group: true };
+  }
+
+  #parseMapField(): MapFieldNode {
+    this.#expect('<');
+    const keyType = this.#expectType();
+    this.#expect(',');
+    const valueType = this.#expectType();
+    this.#expect('>');
+    const name = this.#expectIdent();
+    this.#expect('=');
+    const index = this.#expectInt();
+    const options = this.#parseFieldOptions();
+    this.#expect(';');
+    return { kind: 'map', keyType, valueType, name, index, options };
+  }
+
+  #parseOneof(messages: MessageNode[]): OneofNode {
+    const node: OneofNode = { kind: 'oneof', name: this.#expectIdent(), fields: [] };
+    this.#expect('{');
+    while (!this.#accept('}')) {
+      if (this.#accept('option')) {
+        this.#parseOption();
+        this.#expect(';');
+      } else if (!this.#accept(';')) {
+        node.fields.push(this.#parseField(messages));
+      }
+    }
+    return node;
+  }
+
+  #parseEnum(): EnumNode {
+    const node: EnumNode = { kind: 'enum', name: this.#expectIdent(), values: [], options: {} };
+    this.#expect('{');
+    while (!this.#accept('}')) {
+      const token = this.#peek();
+      if (!token) throw this.#error(`Unexpected end of file in enum ${node.name}`);
+      if (token.value === 'option') {
+        this.#next();
+        const [name, value] = this.#parseOption();
+        node.options[name] = value;
+        this.#expect(';');
+      } else if (token.value === 'reserved') {
+        this.#skipStatement();
+      } else if (!this.#accept(';')) {
+        const name = this.#expectIdent();
+        this.#expect('=');
+        const number = this.#expectInt();
+        this.#parseFieldOptions();
+        this.#expect(';');
+        node.values.push({ name, number });
+      }
+    }
+    return node;
+  }
+
+  /** Parses `name = value` of an option statement. */
+  #parseOption(): [string, OptionValue] {
+    let name = '';
+    if (this.#accept('(')) {
+      name = `(${this.#expectType()})`;
+      this.#expect(')');
+    } else {
+      name = this.#expectIdent();
+    }
+    while (this.#accept('.')) {
+      name += '.' + this.#expectIdent();
+    }
+    this.#expect('=');
+    return [name, this.#parseConstant()];
+  }
+
+  #parseFieldOptions(): Record<string, OptionValue> {
+    const options: Record<string, OptionValue> = {};
+    if (!this.#accept('[')) return options;
+    do {
+      const [name, value] = this.#parseOption();
+      options[name] = value;
+    } while (this.#accept(','));
+    this.#expect(']');
+    return options;
+  }
+
+  #parseConstant(): OptionValue {
+    const token = this.#next();
+    switch (token.type) {
+      case 'string': {
+        let value = token.value;
+        // adjacent strings are concatenated
+        while (this.#peek()?.type === 'string') value += this.#next().value;
+        return value;
+      }
+      case 'int':
+        return parseInteger(token.value);
+      case 'float':
+        return Number(token.value);
+      case 'ident':
+        if (token.value === 'true') return true;
+        if (token.value === 'false') return false;
+        if (token.value === 'inf') return Infinity;
+        if (token.value === 'nan') return NaN;
+        return token.value;
+      case 'symbol':
+        if (token.value === '-' || token.value === '+') {
+          const value = this.#parseConstant();
+          if (typeof value !== 'number' && typeof value !== 'bigint') throw this.#error(`Expected number after ${token.value}`, token);
+          return token.value === '-' ? -value : value;
+        }
+        if (token.value === '{') {
+          // aggregate values in text format are skipped
+          this.#pos--;
+          this.#skipBlock();
+          return '';
+        }
+    }
+    throw this.#error(`Unexpected token ${token.value}`, token);
+  }
+
+  #skipStatement() {
+    while (this.#next().value !== ';');
+  }
+
+  /** Skips everything up to and including the next balanced `{ ... }` block. */
+  #skipBlock() {
+    while (this.#next().value !== '{');
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.#next();
+      if (token.type !== 'symbol') continue;
+      if (token.value === '{') depth++;
+      if (token.value === '}') depth--;
+    }
+  }
+
+  #expectType(): string {
+    if (this.#accept('.')) return '.' + this.#expectFullIdent();
+    return this.#expectFullIdent();
+  }
+
+  #expectFullIdent(): string {
+    let ident = this.#expectIdent();
+    while (this.#accept('.')) {
+      ident += '.' + this.#expectIdent();
+    }
+    return ident;
+  }
+
+  #expectIdent(): string {
+    const token = this.#next();
+    if (token.type !== 'ident')
+      throw this.#error(`Expected identifier, got ${token.value}`, token);
+    return token.value;
+  }
+
+  #expectString(): string {
+    const value = this.#parseConstant();
+    if (typeof value !== 'string')
+      throw this.#error(`Expected string, got ${value}`);
+    return value;
+  }
+
+  #expectInt(): number {
+    const negative = this.#accept('-');
+    const token = this.#next();
+    if (token.type !== 'int')
+      throw this.#error(`Expected integer, got ${token.value}`, token);
+    const value = Number(parseInteger(token.value));
+    return negative ? -value : value;
+  }
+
+  #accept(value: string) {
+    const token = this.#peek();
+    if (token && token.type !== 'string' && token.value === value) {
+      this.#pos++;
+      return true;
+    }
+    return false;
+  }
+
+  #expect(value: string) {
+    const token = this.#next();
+    if (token.type === 'string' || token.value !== value)
+      throw this.#error(`Expected ${value}, got ${token.value}`, token);
+  }
+
+  #peek(): Token | undefined {
+    return this.#tokens[this.#pos];
+  }
+
+  #peekAt(offset: number): Token | undefined {
+    return this.#tokens[this.#pos + offset];
+  }
+
+  #next(): Token {
+    const token = this.#tokens[this.#pos++];
+    if (!token) throw this.#error('Unexpected end of file');
+    return token;
+  }
+
+  #error(message: string, token = this.#tokens[this.#pos - 1]) {
+    return new ParseError(message, this.path, token?.line ?? 0, token?.column ?? 0);
+  }
+}
+
+/** Parse a decimal, hex or octal integer literal, as a bigint where a number would lose precision,
+ * e.g. for defaults of 64-bit fields.
+ */
+function parseInteger(value: string): number | bigint {
+  const result = BigInt(/^0[0-7]+$/.test(value) ? '0o' + value.slice(1) : value);
+  return Number.isSafeInteger(Number(result)) ? Number(result) : result;
+}
+
+const ESCAPES: Record<string, string> = { a: '\x07', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v', '\\': '\\', "'": "'", '"': '"', '?': '?' };
+
+function tokenize(source: string, path: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1, lineStart = 0, i = 0;
+
+  const error = (message: string) => new ParseError(message, path, line, i - lineStart + 1);
+
+  while (i < source.length) {
+    const char = source[i]!;
+    const column = i - lineStart + 1;
+
+    if (char === '\n') {
+      line++;
+      lineStart = ++i;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      if (end < 0) throw error('Unterminated comment');
+      for (; i < end + 2; i++) {
+        if (source[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+      }
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [match] = /^[A-Za-z_]\w*/.exec(source.slice(i, i + 256))!;
+      tokens.push({ type: 'ident', value: match, line, column });
+      i += match.length;
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(source[i + 1] ?? ''))) {
+      const [match] = /^(0[xX][0-9a-fA-F]+|\d*\.?\d+(?:[eE][+-]?\d+)?\.?|\d+)/.exec(source.slice(i, i + 256))!;
+      const isFloat = !/^0[xX]/.test(match) && /[.eE]/.test(match);
+      tokens.push({ type: isFloat ? 'float' : 'int', value: match, line, column });
+      i += match.length;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (source[i] !== char) {
+        if (i >= source.length || source[i] === '\n') throw error('Unterminated string');
+        if (source[i] === '\\') {
+          const next = source[++i]!;
+          if (next in ESCAPES) {
+            value += ESCAPES[next];
+            i++;
+          } else if (next === 'x' || next === 'X') {
+            const [hex] = /^[0-9a-fA-F]{1,2}/.exec(source.slice(i + 1, i + 3)) ?? [''];
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 1 + hex.length;
+          } else if (/[0-7]/.test(next)) {
+            const [oct] = /^[0-7]{1,3}/.exec(source.slice(i, i + 3))!;
+            value += String.fromCharCode(parseInt(oct, 8));
+            i += oct.length;
+          } else {
+            throw error(`Invalid escape sequence \\${next}`);
+          }
+        } else {
+          value += source[i++];
+        }
+      }
+      i++;
+      tokens.push({ type: 'string', value, line, column });
+    } else if ('{}[]()<>;,=.-+:'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char, line, column });
+      i++;
+    } else {
+      throw error(`Unexpected character ${char}`);
+    }
+  }
+
+  return tokens;
+}
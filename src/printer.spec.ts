@@ -0,0 +1,225 @@
+import { describe, expect, test } from 'bun:test';
+import { EnumDefinition } from './enums';
+import { fromProto } from './parser';
+import { toProto } from './printer';
+import { v } from './schema';
+
+describe('toProto', () => {
+  const Status = new EnumDefinition({ STATUS_UNSPECIFIED: 0, STATUS_OK: 1 });
+  const Coin = v.message({
+    denom: v.string(1),
+    amount: v.uint64(2),
+  });
+  const Wallet = v.message({
+    coins: v.repeated.submessage(1, Coin),
+    meta: v.submessage(2, { label: v.string(1).name('display_label') }),
+    status: v.enum(3, Status),
+    ids: v.repeated.expanded.int32(4),
+    choice: v.oneof('kind', { text: v.string(5), num: v.sint64(6) }),
+    balances: v.map(7, v.string(0), v.submessage(0, Coin)),
+  });
+
+  test('proto3', () => {
+    expect(toProto({ Wallet, Coin, Status }, { package: 'test.v1' })).toBe(`\
+syntax = "proto3";
+
+package test.v1;
+
+message Wallet {
+  message Meta {
+    string display_label = 1;
+  }
+
+  repeated Coin coins = 1;
+  Meta meta = 2;
+  Status status = 3;
+  repeated int32 ids = 4 [packed = false];
+  oneof choice {
+    string text = 5;
+    sint64 num = 6;
+  }
+  map<string, Coin> balances = 7;
+}
+
+message Coin {
+  string denom = 1;
+  uint64 amount = 2;
+}
+
+enum Status {
+  STATUS_UNSPECIFIED = 0;
+  STATUS_OK = 1;
+}
+`);
+  });
+
+  test('proto2', () => {
+    const source = toProto({ Coin, Nums: v.message({ nums: v.repeated.int32(1) }) }, { syntax: 'proto2' });
+    expect(source).toContain('  optional string denom = 1;');
+    expect(source).toContain('  repeated int32 nums = 1 [packed = true];');
+  });
+
+  test('required', () => {
+    const Foo = v.message({ a: v.int32(1).required(), b: v.group(2, { c: v.int32(3) }).required() }, { syntax: 'proto2' });
+    const source = toProto({ Foo }, { syntax: 'proto2' });
+    expect(source).toContain('  required int32 a = 1;');
+    expect(source).toContain('  required group B = 2 {');
+    expect(fromProto(source)['Foo']!.fields.a!._required).toBe(true);
+
+    // without explicit presence, required fields are not encoded when set to their default
+    const Bar = v.message({ a: v.int32(1).required() });
+    expect(toProto({ Bar }, { syntax: 'proto2' })).toContain('  optional int32 a = 1;');
+    expect(toProto({ Bar })).toContain('  int32 a = 1;');
+  });
+
+  test('optional', () => {
+    const source = toProto({ Foo: v.message({ a: v.int32(1).optional(), b: v.int32(2) }) });
+    expect(source).toContain('  optional int32 a = 1;');
+    expect(source).toContain('  int32 b = 2;');
+  });
+
+  test('defaults', () => {
+    const Foo = v.message({
+      count: v.int32(1).default(-5),
+      name: v.string(2).default('a "b"'),
+      data: v.bytes(3).default(new Uint8Array([1, 255])),
+      status: v.enum(4, Status).default(1),
+      ratio: v.double(5).default(Infinity),
+    });
+    const source = toProto({ Foo, Status }, { syntax: 'proto2' });
+    expect(source).toContain('  optional int32 count = 1 [default = -5];');
+    expect(source).toContain('  optional string name = 2 [default = "a \\"b\\""];');
+    expect(source).toContain('  optional bytes data = 3 [default = "\\x01\\xff"];');
+    expect(source).toContain('  optional Status status = 4 [default = STATUS_OK];');
+    expect(source).toContain('  optional double ratio = 5 [default = inf];');
+    expect(fromProto(source)['Foo']!.decode(new Uint8Array())).toMatchObject(Foo.default);
+    expect(() => toProto({ Foo, Status })).toThrow('cannot have a custom default in proto3');
+  });
+
+  test('groups', () => {
+    const Search = v.message({
+      result: v.group(1, { url: v.string(2) }),
+      page: v.repeated.group(3, { number: v.int32(4) }),
+    }, { syntax: 'proto2' });
+    const source = toProto({ Search }, { syntax: 'proto2' });
+    expect(source).toContain(`message Search {
+  optional group Result = 1 {
+    optional string url = 2;
+  }
+  repeated group Page = 3 {
+    optional int32 number = 4;
+  }
+}`);
+    expect(source).not.toContain('message Result');
+    const value = { result: { url: 'a' }, page: [{ number: 1 }] };
+    expect(fromProto(source)['Search']!.encode(value).toShrunk().toHex()).toBe(Search.encode(value).toShrunk().toHex());
+
+    // groups parsed by `fromProto` are registered as nested messages
+    const parsed = fromProto('syntax = "proto2"; message A { optional group G = 6 { optional int32 q = 1; } }');
+    expect(Object.keys(parsed)).toEqual(['A', 'A.G']);
+    const printed = toProto(parsed, { syntax: 'proto2' });
+    expect(printed).toContain(`message A {
+  optional group G = 6 {
+    optional int32 q = 1;
+  }
+}`);
+    expect(printed).not.toContain('message G');
+    expect(fromProto(printed)['A']!.encode({ g: { q: 1 } }).toShrunk().toHex()).toBe('33' + '0801' + '34');
+
+    expect(() => toProto({ Search })).toThrow('Delimited field result can only be emitted as a group in proto2');
+    const Result = v.message({ url: v.string(1) });
+    expect(() => toProto({ Result, Foo: v.message({ result: v.group(1, Result) }) }, { syntax: 'proto2' })).toThrow('Group result must be declared by its field only');
+  });
+
+  test('nested names', () => {
+    const source = toProto({ Wallet, 'Wallet.Coin': Coin, 'Wallet.Status': Status });
+    expect(source).toContain('  message Coin {');
+    expect(source).toContain('  repeated Coin coins = 1;');
+    expect(source).toContain('  enum Status {');
+    expect(() => toProto({ 'Missing.Coin': Coin })).toThrow('Cannot nest Missing.Coin');
+    expect(() => toProto({ Foo: v.message({ status: v.enum(1, { OK: 1 }) }) })).toThrow('must define a zero value');
+  });
+
+  test('packages', () => {
+    const registry = fromProto('syntax = "proto3"; package cosmos.bank.v1beta1; import "coin.proto"; message MsgSend { repeated cosmos.base.v1beta1.Coin amount = 1; }', {
+      imports: { 'coin.proto': 'syntax = "proto3"; package cosmos.base.v1beta1; message Coin { string denom = 1; string amount = 2; }' },
+    });
+    const options = { package: 'cosmos.bank.v1beta1' };
+    expect(() => toProto(registry, options))
+      .toThrow('Cannot emit cosmos.base.v1beta1.Coin as cosmos.base.v1beta1.Coin as it belongs to package cosmos.base.v1beta1 rather than package cosmos.bank.v1beta1');
+    expect(() => toProto({ 'cosmos.bank.v1beta1.MsgSend': registry['cosmos.bank.v1beta1.MsgSend']! }, options))
+      .toThrow('Cannot emit cosmos.base.v1beta1.Coin as MsgSend.Amount as it belongs to package cosmos.base.v1beta1');
+    expect(() => toProto({ 'cosmos.base.v1beta1.Coin': Coin, Wallet }, options))
+      .toThrow('Cannot emit cosmos.base.v1beta1.Coin as it belongs to another package than package cosmos.bank.v1beta1');
+    expect(toProto({ 'cosmos.base.v1beta1.Coin': registry['cosmos.base.v1beta1.Coin']! }, { package: 'cosmos.base.v1beta1' })).toContain('message Coin {');
+  });
+
+  test('enum value conflicts', () => {
+    const Color = new EnumDefinition({ UNKNOWN: 0, RED: 1 });
+    const Size = new EnumDefinition({ UNKNOWN: 0, LARGE: 1 });
+    expect(() => toProto({ Foo: v.message({ color: v.enum(1, Color), size: v.enum(2, Size) }) }))
+      .toThrow('Enum value Foo.Size.UNKNOWN conflicts with enum value Foo.Color.UNKNOWN in message Foo');
+    expect(() => toProto({ Color, Size })).toThrow('Enum value Size.UNKNOWN conflicts with enum value Color.UNKNOWN in the package');
+    expect(() => toProto({ Color, RED: v.message({}) })).toThrow('Enum value Color.RED conflicts with type RED in the package');
+    expect(toProto({ Color, Foo: v.message({ size: v.enum(1, Size) }) })).toContain('    UNKNOWN = 0;');
+  });
+
+  test('well-known types', () => {
+    const { Timestamp, PreciseTimestamp, Duration, Empty, FieldMask, StringValue } = v.wkt;
+    const Event = v.message({
+      at: v.submessage(1, Timestamp),
+      precise: v.submessage(2, PreciseTimestamp),
+      ttl: v.submessage(3, Duration),
+      empty: v.submessage(4, Empty),
+      mask: v.submessage(5, FieldMask),
+      label: v.submessage(6, StringValue),
+      any: v.any(7, {}),
+      times: v.map(8, v.string(0), v.submessage(0, Timestamp)),
+    });
+    const source = toProto({ Event });
+    expect(source).toBe(`\
+syntax = "proto3";
+
+import "google/protobuf/any.proto";
+import "google/protobuf/duration.proto";
+import "google/protobuf/empty.proto";
+import "google/protobuf/field_mask.proto";
+import "google/protobuf/timestamp.proto";
+import "google/protobuf/wrappers.proto";
+
+message Event {
+  google.protobuf.Timestamp at = 1;
+  google.protobuf.Timestamp precise = 2;
+  google.protobuf.Duration ttl = 3;
+  google.protobuf.Empty empty = 4;
+  google.protobuf.FieldMask mask = 5;
+  google.protobuf.StringValue label = 6;
+  google.protobuf.Any any = 7;
+  map<string, google.protobuf.Timestamp> times = 8;
+}
+`);
+
+    // shadowed by a type of the package
+    expect(toProto({ Foo: v.message({ at: v.submessage(1, Timestamp) }), google: v.message({}) }, { package: 'test' }))
+      .toContain('  .google.protobuf.Timestamp at = 1;');
+
+    const registry = fromProto(toProto({ Foo: v.message({ at: v.submessage(1, Timestamp) }) }), {
+      imports: { 'google/protobuf/timestamp.proto': 'syntax = "proto3"; package google.protobuf; message Timestamp { int64 seconds = 1; int32 nanos = 2; }' },
+    });
+    expect(registry['Foo']!.encode({ at: { seconds: 1n, nanos: 0 } }).toShrunk().toHex()).toBe('0a020801');
+  });
+
+  test('roundtrip', () => {
+    const registry = fromProto(toProto({ Wallet, Coin, Status }, { package: 'test.v1' }));
+    const value = {
+      coins: [{ denom: 'uatom', amount: 1n }],
+      meta: { display_label: 'main' },
+      status: 1,
+      ids: [1, 2],
+      choice: { kind: 'num', num: -3n },
+      balances: new Map([['uatom', { denom: 'uatom', amount: 2n }]]),
+    };
+    const ref = { ...value, meta: { label: 'main' } };
+    expect(registry['test.v1.Wallet']!.encode(value).toHex()).toBe(Wallet.encode(ref as any).toHex());
+  });
+});
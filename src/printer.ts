@@ -0,0 +1,421 @@
+import { getBaseCodec, type EnumCodec, type SubmessageCodec } from './codecs';
+import { isOneOf, Repeatedness } from './commons';
+import { EnumDefinition } from './enums';
+import { getProtoName, isDelimited, isPacked, type IMessage, type MessageFields } from './message';
+import { getParsedName } from './parser';
+import { WireType } from './protobuffer';
+import type { FieldSchema } from './schema';
+import { getWellKnownName } from './wkt';
+
+/** Messages & enums to emit, keyed by their names. Names may be prefixed with the package, and
+ * dotted names nest types within other types of the registry, e.g. `Outer.Inner`. Types of other
+ * packages are rejected, as they cannot be declared in the emitted file.
+ */
+export type ToProtoRegistry = Record<string, IMessage<any, any> | EnumDefinition<any>>;
+
+export interface ToProtoOptions {
+  package?: string;
+  /** Defaults to `proto3`. */
+  syntax?: 'proto2' | 'proto3';
+}
+
+interface MessageNode {
+  kind: 'message';
+  name: string;
+  /** Dotted path relative to the package. */
+  path: string;
+  fields: MessageFields;
+  nested: TypeNode[];
+  /** Whether the message is declared by a group field, which prints it inline. */
+  group?: boolean;
+}
+
+interface EnumNode {
+  kind: 'enum';
+  name: string;
+  path: string;
+  definition: EnumDefinition<any>;
+}
+
+type TypeNode = MessageNode | EnumNode;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Emit `.proto` source for the given messages & enums.
+ *
+ * Submessages & enums which are not part of the registry are declared as nested types of the first
+ * message referencing them, named after the referencing field in PascalCase. Enums without a
+ * definition are emitted as `int32`, while literals & JSON fields are emitted as `string`. Delimited
+ * submessages are emitted as groups, which proto2 supports only. Well-known types of `hpb.wkt` &
+ * `hpb.any` are imported from their `google/protobuf/*.proto` files. Types parsed by `fromProto`
+ * must belong to the emitted package, whether registered or not.
+ */
+export function toProto(registry: ToProtoRegistry, options: ToProtoOptions = {}): string {
+  return new ProtoPrinter(options).print(registry);
+}
+
+class ProtoPrinter {
+  /** Types keyed by message fields or enum definitions, so that transformed messages share the
+   * name of their underlying message.
+   */
+  #types = new Map<object, TypeNode>();
+  #roots: TypeNode[] = [];
+  #paths = new Set<string>();
+  #imports = new Set<string>();
+
+  constructor(private readonly options: ToProtoOptions) {}
+
+  get syntax() {
+    return this.options.syntax ?? 'proto3';
+  }
+
+  print(registry: ToProtoRegistry) {
+    const prefix = this.options.package ? this.options.package + '.' : '';
+    const entries = Object.entries(registry).map(([name, type]) => [name.startsWith(prefix) ? name.slice(prefix.length) : name, type] as const);
+
+    // declare all registered types first, shortest paths first so parents exist before their children
+    entries.sort(([a], [b]) => a.split('.').length - b.split('.').length);
+    for (const [path, type] of entries) {
+      const key = type instanceof EnumDefinition ? type : type.fields;
+      this.#checkPackage(key, path);
+      const parentPath = path.includes('.') ? path.slice(0, path.lastIndexOf('.')) : '';
+      const parent = parentPath ? this.#findNode(parentPath) : undefined;
+      // a lowercase root is a package rather than a message, as in `google.protobuf.Empty`
+      const root = path.split('.')[0]!;
+      if (parentPath && !parent && root === root.toLowerCase())
+        throw new Error(`Cannot emit ${path} as it belongs to another package than ${this.#describePackage(this.options.package ?? '')}`);
+      if (parentPath && parent?.kind !== 'message')
+        throw new Error(`Cannot nest ${path} within ${parentPath} as it is not a registered message`);
+      const name = path.slice(parentPath ? parentPath.length + 1 : 0);
+      this.#declare(key, name, parent as MessageNode | undefined);
+    }
+
+    // then walk their fields to discover & name unregistered types
+    for (const node of Array.from(this.#types.values())) {
+      if (node.kind === 'message') this.#walk(node);
+    }
+
+    const lines = [`syntax = "${this.syntax}";`, ''];
+    if (this.options.package)
+      lines.push(`package ${this.options.package};`, '');
+    if (this.#imports.size)
+      lines.push(...Array.from(this.#imports).sort().map(file => `import "${file}";`), '');
+    this.#checkEnumValues(this.#roots, '');
+    for (const node of this.#roots) {
+      lines.push(...this.#printType(node, ''), '');
+    }
+    return lines.join('\n').trimEnd() + '\n';
+  }
+
+  #findNode(path: string) {
+    for (const node of this.#types.values()) {
+      if (node.path === path) return node;
+    }
+  }
+
+  #declare(type: MessageFields | EnumDefinition<any>, name: string, parent?: MessageNode, group = false): TypeNode {
+    if (!IDENTIFIER.test(name))
+      throw new Error(`Invalid type name: ${name}`);
+    if (this.#types.has(type))
+      throw new Error(`Type ${name} is already declared as ${this.#types.get(type)!.path}`);
+
+    // disambiguate derived names of different types
+    let path = parent ? `${parent.path}.${name}` : name;
+    for (let i = 2; this.#paths.has(path); i++) {
+      path = parent ? `${parent.path}.${name}${i}` : `${name}${i}`;
+    }
+    this.#paths.add(path);
+
+    const node: TypeNode = type instanceof EnumDefinition
+      ? { kind: 'enum', name: path.slice(path.lastIndexOf('.') + 1), path, definition: type }
+      : { kind: 'message', name: path.slice(path.lastIndexOf('.') + 1), path, fields: type, nested: [], group };
+    this.#types.set(type, node);
+    (parent?.nested ?? this.#roots).push(node);
+    return node;
+  }
+
+  #walk(node: MessageNode) {
+    for (const [key, field] of Object.entries(node.fields)) {
+      if (isOneOf(field)) {
+        for (const [member, schema] of Object.entries(field.fields as Record<string, FieldSchema<any, any>>)) {
+          this.#discover(node, schema, member);
+        }
+      } else if (field._map) {
+        const { value } = (getBaseCodec(field.codec) as SubmessageCodec<any>).message.fields as Record<string, FieldSchema<any, any>>;
+        this.#discover(node, value!, `${key}_value`);
+      } else {
+        this.#discover(node, field, key);
+      }
+    }
+  }
+
+  /** Reject types parsed from another package, which would be renamed by being emitted here. */
+  #checkPackage(type: MessageFields | EnumDefinition<any>, path: string) {
+    const parsed = getParsedName(type);
+    const pkg = this.options.package ?? '';
+    if (parsed && parsed.package !== pkg)
+      throw new Error(`Cannot emit ${parsed.name} as ${path} as it belongs to ${this.#describePackage(parsed.package)} rather than ${this.#describePackage(pkg)}`);
+  }
+
+  #describePackage(pkg: string) {
+    return pkg ? `package ${pkg}` : 'no package';
+  }
+
+  /** Declare the type of the given field if it is an unregistered submessage or enum. */
+  #discover(parent: MessageNode, schema: FieldSchema<any, any>, key: string) {
+    const codec = getBaseCodec(schema.codec);
+    const name = toPascalCase(getProtoName(schema, key));
+    if ('message' in codec) {
+      const { fields } = (codec as SubmessageCodec<any>).message;
+      const existing = this.#types.get(fields);
+      if (existing) {
+        // registered messages nested in the message of their group field, e.g. by `fromProto`, are
+        // declared by the group
+        const field = getProtoName(schema, key);
+        if (isDelimited(schema) && existing.kind === 'message' && parent.nested.includes(existing) && field === field.toLowerCase() && existing.name === getGroupName(field))
+          existing.group = true;
+        return;
+      }
+      const wellKnown = getWellKnownName(fields);
+      if (wellKnown && !isDelimited(schema)) {
+        this.#imports.add(wellKnown.file);
+        return;
+      }
+      // groups are named after their field, which is their name in lowercase
+      const group = isDelimited(schema);
+      this.#checkPackage(fields, `${parent.path}.${group ? getGroupName(getProtoName(schema, key)) : name}`);
+      this.#walk(this.#declare(fields, group ? getGroupName(getProtoName(schema, key)) : name, parent, group) as MessageNode);
+    } else if ((codec as EnumCodec).definition) {
+      const { definition } = codec as EnumCodec;
+      if (this.#types.has(definition!)) return;
+      this.#checkPackage(definition!, `${parent.path}.${name}`);
+      this.#declare(definition!, name, parent);
+    }
+  }
+
+  /** Enum values are siblings of their enum rather than children, so the values of the enums of a
+   * scope must not conflict with each other nor with the types of the scope.
+   */
+  #checkEnumValues(nodes: TypeNode[], scope: string) {
+    const names = new Map(nodes.map(node => [node.name, `type ${node.path}`]));
+    for (const node of nodes) {
+      if (node.kind === 'message') {
+        this.#checkEnumValues(node.nested, node.path);
+        continue;
+      }
+      for (const [name, value] of Object.entries(node.definition.values)) {
+        if (typeof value !== 'number') continue;
+        const existing = names.get(name);
+        if (existing)
+          throw new Error(`Enum value ${node.path}.${name} conflicts with ${existing} in ${scope ? `message ${scope}` : 'the package'}`);
+        names.set(name, `enum value ${node.path}.${name}`);
+      }
+    }
+  }
+
+  #printType(node: TypeNode, indent: string): string[] {
+    return node.kind === 'enum' ? this.#printEnum(node, indent) : this.#printMessage(node, indent);
+  }
+
+  #printMessage(node: MessageNode, indent: string): string[] {
+    return [`${indent}message ${node.name} {`, ...this.#printBody(node, indent + '  '), `${indent}}`];
+  }
+
+  /** Print the nested types & fields of a message. */
+  #printBody(node: MessageNode, inner: string): string[] {
+    const lines: string[] = [];
+    for (const nested of node.nested) {
+      if (nested.kind === 'message' && nested.group) continue;
+      lines.push(...this.#printType(nested, inner), '');
+    }
+
+    for (const [key, field] of Object.entries(node.fields)) {
+      if (isOneOf(field)) {
+        lines.push(`${inner}oneof ${validateName(key)} {`);
+        for (const [member, schema] of Object.entries(field.fields as Record<string, FieldSchema<any, any>>)) {
+          if (isDelimited(schema))
+            lines.push(...this.#printGroup(schema, member, node, '', inner + '  '));
+          else
+            lines.push(`${inner}  ${this.#typeName(schema, node)} ${validateName(getProtoName(schema, member))} = ${schema.index}${printOptions(getJsonNameOption(schema))};`);
+        }
+        lines.push(`${inner}}`);
+      } else if (isDelimited(field)) {
+        lines.push(...this.#printGroup(field, key, node, field._repeated === Repeatedness.None ? this.#label(field) : 'repeated ', inner));
+      } else {
+        lines.push(inner + this.#printField(field, key, node));
+      }
+    }
+
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+  }
+
+  /** Print a delimited submessage as a group, which declares its message inline. */
+  #printGroup(schema: FieldSchema<any, any>, key: string, scope: MessageNode, label: string, indent: string): string[] {
+    const name = getProtoName(schema, key);
+    if (this.syntax !== 'proto2')
+      throw new Error(`Delimited field ${name} can only be emitted as a group in proto2`);
+    const node = this.#types.get((getBaseCodec(schema.codec) as SubmessageCodec<any>).message.fields) as MessageNode;
+    if (!node.group || !scope.nested.includes(node) || node.name !== getGroupName(name))
+      throw new Error(`Group ${name} must be declared by its field only`);
+    return [
+      `${indent}${label}group ${node.name} = ${schema.index} {`,
+      ...this.#printBody(node, indent + '  '),
+      `${indent}}`,
+    ];
+  }
+
+  #printField(schema: FieldSchema<any, any>, key: string, scope: MessageNode) {
+    const name = validateName(getProtoName(schema, key));
+    const options = getJsonNameOption(schema);
+
+    if (schema._map) {
+      const { key: keySchema, value: valueSchema } = (getBaseCodec(schema.codec) as SubmessageCodec<any>).message.fields as Record<string, FieldSchema<any, any>>;
+      return `map<${this.#typeName(keySchema!, scope)}, ${this.#typeName(valueSchema!, scope)}> ${name} = ${schema.index}${printOptions(options)};`;
+    }
+
+    const type = this.#typeName(schema, scope);
+    if (schema._repeated === Repeatedness.None) {
+      if (schema._default !== undefined) options.unshift(`default = ${this.#printDefault(schema, name)}`);
+      return `${this.#label(schema)}${type} ${name} = ${schema.index}${printOptions(options)};`;
+    }
+
+    // only scalars may be packed, and packing is the default in proto3 only
+    if (getBaseCodec(schema.codec).wiretype !== WireType.Len) {
+      if (this.syntax === 'proto2' && isPacked(schema)) options.unshift('packed = true');
+      if (this.syntax === 'proto3' && !isPacked(schema)) options.unshift('packed = false');
+    }
+    return `repeated ${type} ${name} = ${schema.index}${printOptions(options)};`;
+  }
+
+  /** Label of a singular field. Fields are labelled `required` in proto2 only if they have explicit
+   * presence, like `fromProto` & `legacy_required` produce them, as `required()` alone merely
+   * populates absent fields with their default & does not encode it.
+   */
+  #label(schema: FieldSchema<any, any>) {
+    if (this.syntax === 'proto2')
+      return schema._optional && schema._required ? 'required ' : 'optional ';
+    return schema._optional ? 'optional ' : '';
+  }
+
+  /** Print the custom default of a scalar or enum field as a constant. */
+  #printDefault(schema: FieldSchema<any, any>, name: string): string {
+    if (this.syntax === 'proto3')
+      throw new Error(`Field ${name} cannot have a custom default in proto3`);
+    const value = schema._default;
+    const codec = getBaseCodec(schema.codec);
+    if (codec !== schema.codec)
+      throw new Error(`Default of transformed field ${name} cannot be represented in .proto`);
+
+    switch (schema.type) {
+      case 'enum':
+        return (codec as EnumCodec).definition?.nameOf(value) ?? String(value);
+      case 'string':
+        return JSON.stringify(value);
+      case 'bytes':
+        return `"${Array.from(value as Uint8Array, byte => `\\x${byte.toString(16).padStart(2, '0')}`).join('')}"`;
+      case 'float':
+      case 'double':
+        return Number.isNaN(value) ? 'nan' : value === Infinity ? 'inf' : value === -Infinity ? '-inf' : String(value);
+      case 'submessage':
+      case 'literal':
+      case 'json':
+        throw new Error(`Default of field ${name} cannot be represented in .proto`);
+      default:
+        return String(value);
+    }
+  }
+
+  #printEnum(node: EnumNode, indent: string): string[] {
+    const values = Object.entries(node.definition.values).filter((entry): entry is [string, number] => typeof entry[1] === 'number');
+    if (this.syntax === 'proto3') {
+      // the first value of proto3 enums must be zero
+      const zero = values.findIndex(([, value]) => value === 0);
+      if (zero < 0)
+        throw new Error(`Enum ${node.path} must define a zero value in proto3`);
+      values.unshift(...values.splice(zero, 1));
+    }
+
+    const lines = [`${indent}enum ${node.name} {`];
+    if (new Set(values.map(([, value]) => value)).size < values.length)
+      lines.push(`${indent}  option allow_alias = true;`);
+    for (const [name, value] of values) {
+      lines.push(`${indent}  ${validateName(name)} = ${value};`);
+    }
+    lines.push(`${indent}}`);
+    return lines;
+  }
+
+  #typeName(schema: FieldSchema<any, any>, scope: MessageNode) {
+    const codec = getBaseCodec(schema.codec);
+    if ('message' in codec) {
+      const { fields } = (codec as SubmessageCodec<any>).message;
+      const node = this.#types.get(fields);
+      if (node) return this.#reference(node, scope);
+      // well-known types are shadowed by top-level types of the package as well
+      const { name } = getWellKnownName(fields)!;
+      return this.#paths.has(name.slice(0, name.indexOf('.'))) ? `.${name}` : this.#qualify(name, scope);
+    }
+
+    switch (schema.type) {
+      case 'enum': {
+        const { definition } = codec as EnumCodec;
+        return definition ? this.#reference(this.#types.get(definition)!, scope) : 'int32';
+      }
+      case 'literal':
+      case 'json':
+        return 'string';
+      default:
+        return schema.type;
+    }
+  }
+
+  /** Reference a type by its shortest unambiguous name from within the given scope. */
+  #reference(node: TypeNode, scope: MessageNode) {
+    if (node.path === `${scope.path}.${node.name}`) return node.name;
+
+    return this.#qualify(this.options.package ? `${this.options.package}.${node.path}` : node.path, scope, node.path);
+  }
+
+  /** Reference a type by its full name, or by its relative path if given. Relative names are
+   * resolved from the innermost scope outwards, so the full name is used with a leading dot if the
+   * first component of the name is shadowed by a nested type.
+   */
+  #qualify(fullName: string, scope: MessageNode, path = fullName) {
+    const [first] = path.split('.');
+    const segments = scope.path.split('.');
+    for (let i = segments.length; i > 0; i--) {
+      if (this.#paths.has(`${segments.slice(0, i).join('.')}.${first}`))
+        return `.${fullName}`;
+    }
+    return path;
+  }
+}
+
+function validateName(name: string) {
+  if (!IDENTIFIER.test(name))
+    throw new Error(`Invalid field name: ${name}`);
+  return name;
+}
+
+/** Get the `json_name` option of a field with a custom JSON name. */
+function getJsonNameOption(schema: FieldSchema<any, any>): string[] {
+  return schema._jsonName === undefined ? [] : [`json_name = ${JSON.stringify(schema._jsonName)}`];
+}
+
+function printOptions(options: string[]) {
+  return options.length ? ` [${options.join(', ')}]` : '';
+}
+
+/** Groups are named after their field with a leading capital letter, as the field name is the group
+ * name in lowercase.
+ */
+function getGroupName(name: string) {
+  if (name !== name.toLowerCase())
+    throw new Error(`Group field ${name} must be lowercase`);
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function toPascalCase(name: string) {
+  return name.replace(/(?:^|_)([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase());
+}
@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'bun:test';
-import { Bytes, ProtoBuffer } from './protobuffer';
+import { DecodeError } from './errors';
+import { Bytes, MAX_FIELD_INDEX, ProtoBuffer, WireType } from './protobuffer';
 
 describe('ProtoBuffer', () => {
   describe('varint', () => {
@@ -229,6 +230,75 @@ describe('ProtoBuffer', () => {
     });
   });
 
+  describe('field headers', () => {
+    test('single byte', () => {
+      const buffer = new ProtoBuffer().writeFieldHeader(15, WireType.Len).seek(0);
+      expect(buffer.writtenBytes().toUint8Array()).toStrictEqual(new Uint8Array([0x7A]));
+      expect(buffer.readFieldHeader()).toEqual({ index: 15, wiretype: WireType.Len });
+    });
+
+    test('multi byte', () => {
+      const buffer = new ProtoBuffer().writeFieldHeader(16, WireType.Varint).seek(0);
+      expect(buffer.writtenBytes().toUint8Array()).toStrictEqual(new Uint8Array([0x80, 0x01]));
+      expect(buffer.peekFieldHeader()).toEqual({ index: 16, wiretype: WireType.Varint });
+      expect(buffer.tell()).toBe(0);
+      expect(buffer.readFieldHeader()).toEqual({ index: 16, wiretype: WireType.Varint });
+      expect(buffer.tell()).toBe(2);
+    });
+
+    test('max index', () => {
+      const buffer = new ProtoBuffer().writeFieldHeader(MAX_FIELD_INDEX, WireType.I32).seek(0);
+      expect(buffer.writtenLength).toBe(5);
+      expect(buffer.readFieldHeader()).toEqual({ index: MAX_FIELD_INDEX, wiretype: WireType.I32 });
+    });
+
+    test('out of range', () => {
+      expect(() => new ProtoBuffer().writeFieldHeader(0, WireType.Varint)).toThrow(RangeError);
+      expect(() => new ProtoBuffer().writeFieldHeader(MAX_FIELD_INDEX + 1, WireType.Varint)).toThrow(RangeError);
+      expect(() => new ProtoBuffer(new Uint8Array([0x00, 0x05])).readFieldHeader()).toThrow('Field index out of range: 0');
+      expect(() => new ProtoBuffer().writeVarint((MAX_FIELD_INDEX + 1) * 8).seek(0).readFieldHeader()).toThrow(DecodeError);
+    });
+
+    test('length', () => {
+      expect(ProtoBuffer.fieldHeaderLength(1)).toBe(1);
+      expect(ProtoBuffer.fieldHeaderLength(15)).toBe(1);
+      expect(ProtoBuffer.fieldHeaderLength(16)).toBe(2);
+      expect(ProtoBuffer.fieldHeaderLength(2047)).toBe(2);
+      expect(ProtoBuffer.fieldHeaderLength(2048)).toBe(3);
+      expect(ProtoBuffer.fieldHeaderLength(MAX_FIELD_INDEX)).toBe(5);
+    });
+
+    test('fields', () => {
+      const source = new Bytes(new Uint8Array([0xff, 1, 2, 3]), [1, 4]);
+      const buffer = new ProtoBuffer()
+        .writeField(1, WireType.Varint, 300n)
+        .writeField(2, WireType.Len, source)
+        .writeField(3, WireType.I32, 7);
+      expect(buffer.writtenBytes().toHex()).toBe('08ac02' + '1203010203' + '1d07000000');
+      expect(ProtoBuffer.fieldLength(1, WireType.Varint, 300n)).toBe(3);
+      expect(ProtoBuffer.fieldLength(2, WireType.Len, source)).toBe(5);
+      expect(ProtoBuffer.fieldLength(3, WireType.I32, 7)).toBe(5);
+    });
+
+    test('groups', () => {
+      const contents = new Uint8Array([0x08, 0x01, 0x13, 0x18, 0x02, 0x14]);
+      const buffer = new ProtoBuffer().writeField(1, WireType.SGroup, contents).writeField(2, WireType.Varint, 3);
+      expect(buffer.writtenBytes().toHex()).toBe('0b' + '0801131802140c' + '1003');
+      expect(ProtoBuffer.fieldLength(1, WireType.SGroup, contents)).toBe(8);
+
+      // nested groups are part of the contents
+      buffer.seek(0);
+      const { index, wiretype } = buffer.readFieldHeader();
+      expect((buffer.readWireType(wiretype, index) as Bytes).toHex()).toBe(new Bytes(contents).toHex());
+      expect(buffer.readFieldHeader()).toEqual({ index: 2, wiretype: WireType.Varint });
+
+      expect(() => ProtoBuffer.fromHex('0801140c').readGroup(1)).toThrow('Mismatched end group tag of field 2');
+      expect(() => ProtoBuffer.fromHex('0801').readGroup(1)).toThrow();
+      expect(() => new ProtoBuffer().readWireType(WireType.EGroup)).toThrow('Unexpected end group tag');
+      expect(() => new ProtoBuffer().writeField(1, WireType.EGroup, undefined)).toThrow('End group tags cannot be written as fields');
+    });
+  });
+
   describe('scalars', () => {
     test('float', () => {
       const buffer = new ProtoBuffer(new Uint8Array(4));
@@ -1,3 +1,8 @@
+import { DecodeError, EncodeError } from './errors';
+
+/** Largest field index permitted by the protobuf specification (2^29 - 1). */
+export const MAX_FIELD_INDEX = 0x1fffffff;
+
 export enum WireType {
   Varint = 0,
   I64 = 1,
@@ -123,22 +128,34 @@ export class ProtoBuffer {
   #buffer: Bytes;
   #offset = 0;
   #writtenLength = 0;
+  /** Offset of this buffer within the buffer it was sliced from, for error reporting. */
+  #base = 0;
 
   constructor(buffer: Uint8Array | Bytes = new Bytes()) {
     this.#buffer = buffer instanceof Bytes ? buffer : new Bytes(buffer);
   }
 
-  /** Write a field header to the buffer. */
+  /** The current offset relative to the outermost buffer this buffer was sliced from. */
+  get absoluteOffset() {
+    return this.#base + this.#offset;
+  }
+
+  /** Write a field header to the buffer. The header is a varint of the field index and the wire
+   * type, thus it may span up to 5 bytes.
+   */
   writeFieldHeader(index: number, ty: WireType) {
-    if (index >> 5) throw new RangeError('Field index too large');
-    this.ensureCapacity(1);
-    this.#buffer.set(this.#offset, (index << 3) | ty);
-    this.#offset += 1;
-    this.#writtenLength = Math.max(this.#writtenLength, this.#offset);
-    return this;
+    if (!Number.isInteger(index) || index < 1 || index > MAX_FIELD_INDEX)
+      throw new RangeError(`Field index out of range: ${index}`);
+    // multiply rather than shift as indices above 2^28 would overflow 32 bit integers
+    return this.writeVarint(index * 8 + ty);
   }
 
+  /** Write a field of the given wire type. The values of groups are their contents, which are
+   * enclosed in start & end group tags.
+   */
   writeField(index: number, wiretype: WireType, value: any) {
+    if (wiretype === WireType.EGroup)
+      throw new EncodeError('End group tags cannot be written as fields');
     this.writeFieldHeader(index, wiretype);
     switch (wiretype) {
       case WireType.Varint:
@@ -151,11 +168,13 @@ export class ProtoBuffer {
         this.writeFixed64(value);
         break;
       case WireType.Len:
+        this.writeVarint(value.length);
         this.writeBytes(value);
         break;
       case WireType.SGroup:
-      case WireType.EGroup:
-        throw new Error('Group types are not supported');
+        this.writeBytes(value);
+        this.writeFieldHeader(index, WireType.EGroup);
+        break;
     }
     return this;
   }
@@ -239,7 +258,8 @@ export class ProtoBuffer {
     return this.writeVarint(getZigzag(BigInt(value)));
   }
 
-  writeBytes(value: Uint8Array) {
+  writeBytes(value: Uint8Array | Bytes) {
+    value = Bytes.getUint8Array(value);
     this.ensureCapacity(value.length);
     this.#buffer.set(this.#offset, value);
     this.#offset += value.length;
@@ -247,22 +267,33 @@ export class ProtoBuffer {
     return this;
   }
 
+  /** Read a field header from the buffer without advancing the offset. */
   peekFieldHeader() {
-    this.assertCapacity(1);
-    const header = this.#buffer.get(this.#offset);
-    const index = header >> 3;
-    const wiretype = (header & 0x7) as WireType;
-    return { index, wiretype };
+    const offset = this.#offset;
+    try {
+      return this.readFieldHeader();
+    } finally {
+      this.#offset = offset;
+    }
   }
 
-  /** Read a field header from the buffer. */
+  /** Read a field header from the buffer. Indices out of range are rejected, as they cannot be
+   * encoded either.
+   */
   readFieldHeader() {
-    const result = this.peekFieldHeader();
-    this.#offset++;
-    return result;
+    const offset = this.absoluteOffset;
+    const header = this.readUvarint();
+    const index = Number(header >> 3n);
+    if (index < 1 || index > MAX_FIELD_INDEX)
+      throw new DecodeError(`Field index out of range: ${index}`, { offset });
+    const wiretype = Number(header & 0x7n) as WireType;
+    return { index, wiretype };
   }
 
-  readWireType(wiretype: WireType) {
+  /** Read the value of a field of the given wire type. Groups are read up to the end group tag of
+   * their field, and their value is their contents.
+   */
+  readWireType(wiretype: WireType, index?: number) {
     switch (wiretype) {
       case WireType.Varint:
         return this.readVarint();
@@ -275,9 +306,34 @@ export class ProtoBuffer {
         return this.readBytes(length);
       }
       case WireType.SGroup:
+        if (index === undefined)
+          throw new Error('Reading a group requires the index of its field');
+        return this.readGroup(index);
       case WireType.EGroup:
-        throw new Error('Group types are not supported');
+        throw new DecodeError('Unexpected end group tag', { offset: this.absoluteOffset });
+    }
+  }
+
+  /** Read the contents of a group whose start group tag of the given field index has just been read.
+   * Nested groups are skipped, and the matching end group tag is consumed but not included.
+   */
+  readGroup(index: number): Bytes {
+    const start = this.#offset;
+    const open = [index];
+    let end = start;
+    while (open.length) {
+      end = this.#offset;
+      const header = this.readFieldHeader();
+      if (header.wiretype === WireType.SGroup) {
+        open.push(header.index);
+      } else if (header.wiretype === WireType.EGroup) {
+        if (header.index !== open.pop())
+          throw new DecodeError(`Mismatched end group tag of field ${header.index}`, { offset: this.#base + end });
+      } else {
+        this.readWireType(header.wiretype);
+      }
     }
+    return this.#buffer.slice(start, end);
   }
 
   readFloat(): number {
@@ -329,7 +385,7 @@ export class ProtoBuffer {
 
     do {
       if (this.#offset >= this.#buffer.length)
-        throw new Error('Buffer underflow');
+        throw new DecodeError('Buffer underflow: truncated varint', { offset: this.absoluteOffset });
       byte = this.#buffer.get(this.#offset);
       this.#offset++;
       result |= BigInt(byte & 0x7f) << shift;
@@ -364,7 +420,9 @@ export class ProtoBuffer {
    * sub-`ProtoBuffer` and the data will no longer be relevant to this `ProtoBuffer`.
    */
   slice(length: number): ProtoBuffer {
+    this.assertCapacity(length);
     const result = new ProtoBuffer(this.#buffer.slice(this.#offset, this.#offset + length));
+    result.#base = this.absoluteOffset;
     this.#offset += length;
     this.#writtenLength = Math.max(this.#writtenLength, this.#offset);
     return result;
@@ -375,9 +433,13 @@ export class ProtoBuffer {
     return this;
   }
 
+  /** Assert that at least `size` bytes remain to be read. */
   assertCapacity(size: number) {
-    if (this.#buffer.length - this.#offset < size) {
-      throw new Error('Buffer overflow');
+    const remaining = this.#buffer.length - this.#offset;
+    if (size < 0)
+      throw new DecodeError(`Invalid length: ${size}`, { offset: this.absoluteOffset });
+    if (remaining < size) {
+      throw new DecodeError(`Buffer underflow: expected ${size} bytes, but only ${remaining} remain`, { offset: this.absoluteOffset });
     }
   }
 
@@ -450,6 +512,30 @@ export class ProtoBuffer {
     return length;
   }
 
+  /** Computes the length of a field header for the given field index. */
+  static fieldHeaderLength(index: number): number {
+    return this.varintLength(index * 8);
+  }
+
+  /** Computes the length of a field written by `writeField`, including its header. */
+  static fieldLength(index: number, wiretype: WireType, value: any): number {
+    const header = this.fieldHeaderLength(index);
+    switch (wiretype) {
+      case WireType.Varint:
+        return header + this.varintLength(value);
+      case WireType.I32:
+        return header + 4;
+      case WireType.I64:
+        return header + 8;
+      case WireType.Len:
+        return header + this.varintLength(value.length) + value.length;
+      case WireType.SGroup:
+        return 2 * header + value.length;
+      case WireType.EGroup:
+        throw new EncodeError('End group tags cannot be written as fields');
+    }
+  }
+
   /** Computes the length of a signed, zigzag encoded varint. */
   static zigzagLength(value: number | bigint): number {
     return this.varintLength(getZigzag(BigInt(value)));
@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+import { ValidationError } from './errors';
+import { v } from './schema';
+
+/** Catch the `ValidationError` thrown by `fn`. */
+function catchIssues(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof ValidationError) return error.issues;
+    throw error;
+  }
+  throw new Error('Expected a ValidationError');
+}
+
+describe('refinements', () => {
+  const Coin = v.message({
+    denom: v.string(1).regex(/^[a-z]+$/),
+    amount: v.uint64(2).min(1n),
+  });
+  const Tx = v.message({
+    memo: v.string(1).max(5),
+    coins: v.repeated.submessage(2, Coin).nonempty(),
+    gas: v.int32(3).refine(value => value % 2 === 0, 'Must be even'),
+  });
+
+  test('decode', () => {
+    const valid = { memo: 'hi', coins: [{ denom: 'atom', amount: 1n }], gas: 2 };
+    expect(Tx.decode(Tx.encode(valid).seek(0))).toMatchObject(valid);
+
+    const invalid = { memo: 'too long', coins: [{ denom: 'atom', amount: 1n }, { denom: 'ATOM', amount: 0n }], gas: 3 };
+    const issues = catchIssues(() => Tx.decode(Tx.encode(invalid).seek(0)));
+    // submessages validate while being decoded, before the fields of their parent
+    expect(issues).toEqual([
+      { path: ['coins', 1, 'denom'], message: 'Must match /^[a-z]+$/' },
+      { path: ['coins', 1, 'amount'], message: 'Must be at least 1' },
+      { path: ['memo'], message: 'Must be at most 5 characters long' },
+      { path: ['gas'], message: 'Must be even' },
+    ]);
+    expect(issues).toHaveLength(Tx.validate(invalid).length);
+  });
+
+  test('decode, own fields', () => {
+    const issues = catchIssues(() => Tx.decode(Tx.encode({ memo: 'too long', gas: 3 }).seek(0)));
+    expect(issues).toEqual([
+      { path: ['memo'], message: 'Must be at most 5 characters long' },
+      { path: ['coins'], message: 'Must not be empty' },
+      { path: ['gas'], message: 'Must be even' },
+    ]);
+  });
+
+  test('encode', () => {
+    const value = { memo: 'ok', coins: [{ denom: 'ATOM', amount: 1n }], gas: 2 };
+    // encoding does not validate by default
+    expect(() => Tx.encode(value)).not.toThrow();
+    expect(catchIssues(() => Tx.encode(value, { validate: true }))).toEqual([
+      { path: ['coins', 0, 'denom'], message: 'Must match /^[a-z]+$/' },
+    ]);
+    expect(Tx.validate(value)).toHaveLength(1);
+  });
+
+  test('message refinements', () => {
+    const Range = v.message({
+      from: v.int32(1),
+      to: v.int32(2),
+    }).refine(({ from = 0, to = 0 }) => from <= to, { message: 'Must not end before it starts', path: ['to'] });
+
+    expect(Range.validate({ from: 1, to: 2 })).toEqual([]);
+    expect(catchIssues(() => Range.decode(Range.encode({ from: 2, to: 1 }).seek(0)))).toEqual([
+      { path: ['to'], message: 'Must not end before it starts' },
+    ]);
+    // message refinements are skipped if its submessages fail, unlike the refinements of its fields
+    const Doc = v.message({
+      sub: v.submessage(1, { x: v.int32(1).min(1) }),
+      n: v.int32(2).min(1),
+    }).refine(() => false, 'Never valid');
+    expect(catchIssues(() => Doc.decode(Doc.encode({ sub: { x: 0 }, n: 0 }).seek(0)))).toEqual([
+      { path: ['sub', 'x'], message: 'Must be at least 1' },
+      { path: ['n'], message: 'Must be at least 1' },
+    ]);
+  });
+
+  test('maps & one ofs', () => {
+    const schema = v.message({
+      balances: v.map(1, v.string(0), v.uint64(0).max(10n)).max(2),
+      choice: v.oneof('kind', { text: v.string(2).nonempty(), num: v.int32(3) }),
+    });
+    expect(schema.validate({ balances: new Map([['a', 11n], ['b', 1n], ['c', 1n]]), choice: { kind: 'text', text: '' } })).toEqual([
+      { path: ['balances'], message: 'Must contain at most 2 items' },
+      { path: ['balances', 'a'], message: 'Must be at most 10' },
+      { path: ['choice', 'text'], message: 'Must not be empty' },
+    ]);
+  });
+
+  test('transforms', () => {
+    const schema = v.message({
+      tags: v.string(1).min(1).transform<string[]>({
+        get default() { return []; },
+        encode: (tags) => tags.join(','),
+        decode: (value) => value ? value.split(',') : [],
+      }),
+    });
+    expect(schema.validate({ tags: ['a'] })).toEqual([]);
+    expect(schema.validate({ tags: [] })).toEqual([{ path: ['tags'], message: 'Must be at least 1 character long' }]);
+  });
+});
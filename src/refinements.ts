@@ -0,0 +1,93 @@
+import type { Path, ValidationIssue } from './errors';
+import { Bytes } from './protobuffer';
+
+/** A custom check of a value. Field refinements receive the value of the field, i.e. the array of
+ * repeated fields & the `Map` or record of map fields, while message refinements receive the whole
+ * message, e.g. for cross-field rules.
+ */
+export interface Refinement<T = any> {
+  check: (value: T) => boolean;
+  message: string;
+  /** Path of the issue relative to the refined value, e.g. to attribute message refinements to a field. */
+  path?: Path;
+}
+
+export type RefinementOptions = string | { message?: string, path?: Path };
+
+/** Kind of value refined by built-in refinements, which determines what `min` & `max` bound. */
+type RefinedKind = 'number' | 'string' | 'bytes' | 'collection';
+
+export function createRefinement<T>(check: (value: T) => boolean, options: RefinementOptions = {}, defaultMessage = 'Invalid value'): Refinement<T> {
+  if (typeof options === 'string') return { check, message: options };
+  return { check, message: options.message ?? defaultMessage, path: options.path };
+}
+
+/** Determine the kind of refined values from a field schema's type & repeatedness. */
+export function getRefinedKind(type: string, collection: boolean): RefinedKind {
+  if (collection) return 'collection';
+  switch (type) {
+    case 'string':
+    case 'literal':
+      return 'string';
+    case 'bytes':
+      return 'bytes';
+    default:
+      return 'number';
+  }
+}
+
+/** Get the numeric value or size of a value, as bounded by `min` & `max`. */
+function measure(value: any): number | bigint {
+  if (typeof value === 'number' || typeof value === 'bigint') return value;
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (value instanceof Map) return value.size;
+  if (value instanceof Uint8Array || value instanceof Bytes) return value.length;
+  if (value && typeof value === 'object') return Object.keys(value).length;
+  return NaN;
+}
+
+function describeBound(kind: RefinedKind, bound: number | bigint) {
+  const plural = bound == 1 ? '' : 's';
+  switch (kind) {
+    case 'string': return `${bound} character${plural} long`;
+    case 'bytes': return `${bound} byte${plural} long`;
+    case 'collection': return `${bound} item${plural}`;
+    case 'number': return `${bound}`;
+  }
+}
+
+export const refinements = {
+  min: (kind: RefinedKind, bound: number | bigint, options?: RefinementOptions) => createRefinement(
+    (value) => measure(value) >= bound,
+    options,
+    `Must ${kind === 'collection' ? 'contain' : 'be'} at least ${describeBound(kind, bound)}`,
+  ),
+  max: (kind: RefinedKind, bound: number | bigint, options?: RefinementOptions) => createRefinement(
+    (value) => measure(value) <= bound,
+    options,
+    `Must ${kind === 'collection' ? 'contain' : 'be'} at most ${describeBound(kind, bound)}`,
+  ),
+  /** Strings must match the regular expression. For repeated fields, every item must match. */
+  regex: (regex: RegExp, options?: RefinementOptions) => createRefinement(
+    (value: string | string[]) => (Array.isArray(value) ? value : [value]).every(item => {
+      // reset stateful global & sticky expressions
+      regex.lastIndex = 0;
+      return regex.test(item);
+    }),
+    options,
+    `Must match ${regex}`,
+  ),
+  nonempty: (options?: RefinementOptions) => createRefinement(
+    (value) => measure(value) > 0,
+    options,
+    'Must not be empty',
+  ),
+};
+
+/** Run refinements against a value, collecting failures into `issues`. */
+export function checkRefinements(list: Refinement[] | undefined, value: unknown, path: Path, issues: ValidationIssue[]) {
+  if (!list) return;
+  for (const { check, message, path: subpath = [] } of list) {
+    if (!check(value)) issues.push({ path: [...path, ...subpath], message });
+  }
+}
@@ -1,8 +1,15 @@
 import { codecs, transformCodec, type TransformParameters } from './codecs';
 import type { Codec, CodecFactory, CodecType } from './codecs';
-import { InferType, IVariants, Repeatedness, ToVariant, type Infer } from './commons';
-import { IMessage, Message, type MessageFields } from './message';
+import { InferType, IOneOf, IVariants, Repeatedness, ToVariant, type Infer } from './commons';
+import type { EnumDefinition, EnumOptions, EnumValue, EnumValues } from './enums';
+import { Extension } from './extensions';
+import { validateFeatures, type FeatureSet } from './features';
+import { IMessage, LazyMessage, MAP_KEY_TYPES, Message, type EncodeOptions, type MessageFields, type MessageOptions } from './message';
+import { fromProto } from './parser';
+import { toProto } from './printer';
+import { createAny, createWellKnownTypes, type AnyRegistry, type AnyValue, type WellKnownTypes } from './wkt';
 import { ProtoBuffer, WireType } from './protobuffer';
+import { createRefinement, getRefinedKind, refinements, type Refinement, type RefinementOptions } from './refinements';
 
 export interface Validator<T = unknown, S extends string = string> {
   [InferType]?: T;
@@ -13,7 +20,7 @@ export interface Validator<T = unknown, S extends string = string> {
    * **Note** that protobuf has no canonical representation, thus this value is only reliable for
    * bytes produced by this implementation.
    */
-  length(value: T): number;
+  length(value: T, options?: EncodeOptions): number;
 }
 
 export interface FieldSchema<T, S extends string> extends Validator<T, S>, Omit<SchemaParameters<T, S>, 'type'> {
@@ -23,9 +30,57 @@ export interface FieldSchema<T, S extends string> extends Validator<T, S>, Omit<
 export interface FieldSchemaWithTransform<In, S extends string> extends FieldSchema<In, S> {
   transform: <Out>(params: TransformParameters<In, Out>) => FieldSchemaWithTransform<KeepUndefined<In, Out>, S>;
   required(): FieldSchemaWithTransform<Defined<In>, S>;
+  /** Track the presence of this field explicitly, like proto3 `optional`: values are encoded even if
+   * they equal the default, and absent fields decode as `undefined`.
+   */
+  optional(): FieldSchemaWithTransform<In | undefined, S>;
+  /** Use a custom value when the field is absent, like proto2's `[default = x]`. Values equal to the
+   * default are omitted from the wire, as decoding restores them.
+   */
+  default(value: Defined<In>): FieldSchemaWithTransform<Defined<In>, S>;
+  /** Override the name of this field in the `.proto` definition, which defaults to its key. The
+   * JSON name is derived from it.
+   */
+  name(protoName: string): FieldSchemaWithTransform<In, S>;
+  /** Override the JSON name of this field, like the `json_name` option. */
+  jsonName(jsonName: string): FieldSchemaWithTransform<In, S>;
+  /** Override features of the containing message's syntax for this field, like Editions' field
+   * options, e.g. `{ repeated_field_encoding: 'expanded' }`.
+   */
+  features(features: Partial<FeatureSet>): FieldSchemaWithTransform<In, S>;
+  /** Add a custom check of the value, which runs on decode & optionally on encode. */
+  refine(check: (value: Defined<In>) => boolean, options?: RefinementOptions): FieldSchemaWithTransform<In, S>;
+  /** Lower bound of numbers, or of the length of strings, bytes & repeated fields. */
+  min(bound: number | bigint, options?: RefinementOptions): FieldSchemaWithTransform<In, S>;
+  /** Upper bound of numbers, or of the length of strings, bytes & repeated fields. */
+  max(bound: number | bigint, options?: RefinementOptions): FieldSchemaWithTransform<In, S>;
+  /** Strings must match the regular expression. For repeated fields, every item must match. */
+  regex(regex: RegExp, options?: RefinementOptions): FieldSchemaWithTransform<In, S>;
+  /** Strings, bytes & repeated fields must not be empty. */
+  nonempty(options?: RefinementOptions): FieldSchemaWithTransform<In, S>;
 }
 
+/** A map field. Transforms are not supported as they would apply to individual entries. */
+export interface MapFieldSchema<T> extends FieldSchema<T, 'map'> {
+  required(): MapFieldSchema<Defined<T>>;
+  name(protoName: string): MapFieldSchema<T>;
+  jsonName(jsonName: string): MapFieldSchema<T>;
+  /** Override features for the keys & values of this map. */
+  features(features: Partial<FeatureSet>): MapFieldSchema<T>;
+  refine(check: (value: Defined<T>) => boolean, options?: RefinementOptions): MapFieldSchema<T>;
+  /** Lower bound of the number of entries. */
+  min(bound: number, options?: RefinementOptions): MapFieldSchema<T>;
+  /** Upper bound of the number of entries. */
+  max(bound: number, options?: RefinementOptions): MapFieldSchema<T>;
+  nonempty(options?: RefinementOptions): MapFieldSchema<T>;
+}
+
+/** Whether map fields are decoded as `Map`s or plain objects. */
+export type MapKind = 'map' | 'record';
+
 type Defined<T> = Exclude<T, undefined>;
+/** Object keys of records. 64 bit integers & booleans are stringified. */
+type RecordKey<K> = K extends number | string ? K : string;
 type KeepUndefined<In, Out> = In extends undefined ? Out | undefined : Out;
 
 export type Schemas = SimpleSchemas & GenericSchemas;
@@ -37,25 +92,52 @@ type SimpleRepeatedSchemas = { [K in SimpleSchemaTypes]: (index: number) => Fiel
 
 interface GenericSchemas {
   literal: <T extends string>(index: number, value: T) => FieldSchemaWithTransform<T, 'literal'>;
-  enum: <T extends number>(index: number) => FieldSchemaWithTransform<T | undefined, 'enum'>;
+  enum: {
+    <T extends number>(index: number): FieldSchemaWithTransform<T | undefined, 'enum'>;
+    <E extends EnumValues>(index: number, values: E | EnumDefinition<E>, options?: EnumOptions): FieldSchemaWithTransform<EnumValue<E> | undefined, 'enum'>;
+  };
   submessage<T extends MessageFields>(index: number, fields: T): FieldSchemaWithTransform<Infer<T> | undefined, 'submessage'>;
   submessage<T extends MessageFields, U>(index: number, msg: IMessage<T, U>): FieldSchemaWithTransform<U | undefined, 'submessage'>;
   json: <T extends {}>(index: number) => FieldSchemaWithTransform<Partial<T> | undefined, 'json'>;
 };
 
 interface GenericRepeatedSchemas {
-  enum: <T extends number>(index: number) => FieldSchemaWithTransform<T[] | undefined, 'enum'>;
+  enum: {
+    <T extends number>(index: number): FieldSchemaWithTransform<T[] | undefined, 'enum'>;
+    <E extends EnumValues>(index: number, values: E | EnumDefinition<E>, options?: EnumOptions): FieldSchemaWithTransform<EnumValue<E>[] | undefined, 'enum'>;
+  };
   submessage<T extends MessageFields>(index: number, fields: T): FieldSchemaWithTransform<v.infer<T>[] | undefined, 'submessage'>;
   submessage<T extends MessageFields, U>(index: number, msg: IMessage<T, U>): FieldSchemaWithTransform<U[] | undefined, 'submessage'>;
   json: <T extends {}>(index: number) => FieldSchemaWithTransform<Partial<T>[] | undefined, 'json'>;
 };
 
+interface MapSchema {
+  <K extends FieldSchema<any, MapKeyType>, V extends FieldSchema<any, string>>(index: number, key: K, value: V, options?: { as?: 'map' }): MapFieldSchema<Map<Defined<Infer<K>>, Defined<Infer<V>>> | undefined>;
+  <K extends FieldSchema<any, MapKeyType>, V extends FieldSchema<any, string>>(index: number, key: K, value: V, options: { as: 'record' }): MapFieldSchema<Record<RecordKey<Defined<Infer<K>>>, Defined<Infer<V>>> | undefined>;
+};
+
+type MapKeyType = typeof MAP_KEY_TYPES[number];
+
 interface SchemaParameters<T, S extends string> {
   type: S;
   index: number;
   codec: Codec<T>;
   _repeated?: Repeatedness;
   _required?: boolean;
+  /** Whether the field has explicit presence. */
+  _optional?: boolean;
+  /** Custom value of the field when absent. */
+  _default?: T;
+  _map?: MapKind;
+  _name?: string;
+  /** JSON name of the field, which defaults to the lowerCamelCase proto name. */
+  _jsonName?: string;
+  /** Checks of the decoded value, run in order. */
+  _refinements?: Refinement[];
+  /** Features overriding those of the containing message's syntax. Fields of messages are resolved
+   * to the complete set of features.
+   */
+  _features?: Partial<FeatureSet>;
 }
 
 function createSchema<T, S extends string>({
@@ -64,6 +146,13 @@ function createSchema<T, S extends string>({
   index,
   _repeated = Repeatedness.None,
   _required = false,
+  _optional = false,
+  _default,
+  _map,
+  _name,
+  _jsonName,
+  _refinements,
+  _features,
 }: SchemaParameters<T, S>): FieldSchema<T, S> {
   return {
     type,
@@ -71,8 +160,15 @@ function createSchema<T, S extends string>({
     index,
     _repeated,
     _required,
+    _optional,
+    _default,
+    _map,
+    _name,
+    _jsonName,
+    _refinements,
+    _features,
     get wiretype() { return codec.wiretype; },
-    length: (value) => codec.length(value),
+    length: (value, options) => ProtoBuffer.fieldHeaderLength(index) + codec.length(value, options),
   };
 }
 
@@ -87,19 +183,107 @@ function getSchemaFactory<T1, Args extends any[]>(
 };
 
 function addTransform<T, S extends string>(schema: FieldSchema<T, S>): FieldSchemaWithTransform<T, S> {
+  const refine = (refinement: Refinement) =>
+    addTransform(createSchema({ ...schema, _refinements: [...schema._refinements ?? [], refinement] }));
+  const kind = () => getRefinedKind(schema.type, !!schema._repeated || !!schema._map);
+
   return Object.assign(schema, {
     transform: (<T2>(sub: TransformParameters<T, T2>) =>
-      addTransform(createSchema({ ...schema, codec: transformCodec(schema.codec, sub) }))) as any,
+      addTransform(createSchema({
+        ...schema,
+        codec: transformCodec(schema.codec, sub),
+        _default: schema._default === undefined ? undefined : sub.decode(schema._default as Defined<T>),
+        // prior refinements check the untransformed value
+        _refinements: schema._refinements?.map(({ check, ...rest }) => ({ ...rest, check: (value: T2) => check(sub.encode(value)) })),
+      }))) as any,
     required: () => addTransform(createSchema({ ...schema, _required: true })) as any,
+    optional: () => {
+      if (schema._repeated || schema._map)
+        throw new Error('Repeated & map fields cannot be optional');
+      return addTransform(createSchema({ ...schema, _optional: true })) as any;
+    },
+    default: (value: T) => {
+      if (schema._repeated || schema._map)
+        throw new Error('Repeated & map fields cannot have defaults');
+      return addTransform(createSchema({ ...schema, _default: value })) as any;
+    },
+    name: (protoName: string) => addTransform(createSchema({ ...schema, _name: protoName })),
+    jsonName: (jsonName: string) => addTransform(createSchema({ ...schema, _jsonName: jsonName })),
+    features: (features: Partial<FeatureSet>) => addTransform(createSchema({ ...schema, _features: { ...schema._features, ...validateFeatures(features) } })),
+    refine: (check: (value: any) => boolean, options?: RefinementOptions) => refine(createRefinement(check, options)),
+    min: (bound: number | bigint, options?: RefinementOptions) => refine(refinements.min(kind(), bound, options)),
+    max: (bound: number | bigint, options?: RefinementOptions) => refine(refinements.max(kind(), bound, options)),
+    regex: (regex: RegExp, options?: RefinementOptions) => refine(refinements.regex(regex, options)),
+    nonempty: (options?: RefinementOptions) => refine(refinements.nonempty(options)),
   });
 }
 
+/** Copy a field schema with different parameters, retaining its `transform`, `required` & `name`
+ * methods.
+ */
+export function withParameters<T, S extends string>(schema: FieldSchema<T, S>, params: Partial<SchemaParameters<T, S>>) {
+  return addTransform(createSchema({ ...schema, ...params }));
+}
+
 export const fieldSchemas = Object.fromEntries(
   Object.entries(codecs).map(([key, codec]) => [key, getSchemaFactory(key, codec as any)])
 ) as unknown as Schemas;
 
+export const repeatedSchemas = {
+  // NOTE: it's easiest to just ignore the TypeScript bits and pretend everything is correct
+  ...Object.fromEntries(
+    Object.entries(fieldSchemas).map(([key, fn]) => [
+      key,
+      (index: number, ...args: any[]) => Object.assign((fn as any)(index, ...args) as any, { _repeated: Repeatedness.Default }),
+    ]),
+  ) as unknown as RepeatedSchemas,
+  expanded: Object.fromEntries(
+    Object.entries(fieldSchemas).map(([key, fn]) => [
+      key,
+      (index: number, ...args: any[]) => Object.assign((fn as any)(index, ...args) as any, { _repeated: Repeatedness.Expanded }),
+    ]),
+  ) as unknown as Omit<RepeatedSchemas, 'bytes' | 'string' | 'submessage'>,
+  /** Repeated proto2 groups, see `group`. */
+  group: ((index: number, fields: any) =>
+    repeatedSchemas.submessage(index, fields).features({ message_encoding: 'delimited' })) as GenericRepeatedSchemas['submessage'],
+};
+
+let wkt: WellKnownTypes | undefined;
+
 export const v = {
-  message: <T extends MessageFields>(fields: T) => new Message<T>(fields),
+  /** Create a message. Its `syntax` determines the behavior of its fields, e.g. their presence &
+   * whether repeated scalars are packed. Without syntax, messages behave like proto3 messages, except
+   * that strings are not validated.
+   */
+  message: <T extends MessageFields>(fields: T, options?: MessageOptions) => new Message<T>(fields, options),
+  /** Defer resolving a message until it is first used, e.g. for recursive & mutually recursive
+   * messages. TypeScript cannot infer the types of self-referencing values, so annotate them
+   * explicitly with `hpb.message<T>`:
+   *
+   * ```ts
+   * type Expr = { op?: string, children?: Expr[] };
+   * const Expr: hpb.message<Expr> = hpb.message({
+   *   op: hpb.string(1),
+   *   children: hpb.repeated.submessage(2, hpb.lazy(() => Expr)),
+   * });
+   * ```
+   */
+  lazy: <U>(resolve: () => IMessage<any, U>): IMessage<any, U> => new LazyMessage(resolve),
+  /** A *one of* groups fields of which at most one may be set at a time. On the wire, its members
+   * are regular fields of the containing message, so it is fully compatible with protobuf's `oneof`.
+   * The decoded value is a discriminated union on `prop`, e.g. `{ kind: 'a', a: 'hello' }`.
+   *
+   * When multiple members are present on the wire, the last one wins.
+   */
+  oneof: <Prop extends string, T extends Record<string, FieldSchema<any, any>>>(prop: Prop, fields: T): IOneOf<Prop, T> => {
+    for (const key in fields) {
+      if (fields[key]!._repeated)
+        throw new Error(`One of member ${key} cannot be repeated`);
+      if (key as string === prop)
+        throw new Error(`One of member ${key} conflicts with the discriminating property`);
+    }
+    return { type: 'oneof', prop, fields };
+  },
   /** Variants are similar to [protobuf's `Any`](https://protobuf.dev/programming-guides/proto3/#any)
    * except instead of a `type_url` string, it uses a numeric enum. The `0` property is used as the
    * default variant.
@@ -108,7 +292,7 @@ export const v = {
    */
   variants: <Prop extends string, T extends Record<string | number, IMessage<any, any>>>(typeProp: Prop, variants: T) => {
     const subcodecs = Object.fromEntries(
-      Object.entries(variants).map(([key, value]) => [key, codecs.submessage(value)]),
+      Object.entries(variants).map(([key, value]) => [key, codecs.submessage(value) as Codec<any>]),
     ) as Record<keyof T, Codec<ToVariant<Prop, Exclude<keyof T, symbol>, T[Exclude<keyof T, symbol>]>>>;
     return Object.assign(
       new Message({
@@ -151,25 +335,66 @@ export const v = {
       { variants, prop: typeProp },
     ) satisfies IVariants<Prop, T>;
   },
+  /** A proto2 group, i.e. a submessage delimited by start & end group tags rather than prefixed with
+   * its length. Equivalent to a submessage with the `delimited` message encoding.
+   */
+  group: ((index: number, fields: any) =>
+    fieldSchemas.submessage(index, fields).features({ message_encoding: 'delimited' })) as GenericSchemas['submessage'],
+  /** A proto2 extension of the given message, i.e. a field declared by `extend Foo { ... }`. The
+   * field index of the given schema is ignored. Extensions are decoded when registered with the
+   * `ExtensionRegistry` passed to `decode`, and accessed with `getExtension` & `setExtension`.
+   */
+  extension: <T>(extendee: Message<any>, index: number, schema: FieldSchema<T, string>): Extension<T> =>
+    new Extension(extendee, index, schema),
+  /** A `google.protobuf.Any` field. Values are `{ typeUrl, value }` pairs, where `value` is packed &
+   * unpacked with the message registered for `typeUrl`. Values of unregistered type URLs are kept as
+   * raw bytes.
+   */
+  any: <R extends AnyRegistry>(index: number, registry: R): FieldSchemaWithTransform<AnyValue<R> | undefined, 'submessage'> =>
+    fieldSchemas.submessage(index, createAny(registry)),
+  /** Maps are encoded as repeated `{ key = 1, value = 2 }` entry submessages, as per protobuf's
+   * `map<K, V>`. The field indices of the given key & value schemas are ignored. Keys must be
+   * integral, boolean, or string types.
+   *
+   * By default, maps decode as `Map`s. Pass `{ as: 'record' }` to decode into plain objects instead.
+   * When a key occurs multiple times on the wire, the last one wins.
+   */
+  map: (<K extends FieldSchema<any, MapKeyType>, V extends FieldSchema<any, string>>(
+    index: number,
+    key: K,
+    value: V,
+    { as = 'map' }: { as?: MapKind } = {},
+  ) => {
+    if (!MAP_KEY_TYPES.includes(key.type))
+      throw new Error(`Invalid map key type: ${key.type}`);
+    if (key._repeated || value._repeated || value._map)
+      throw new Error('Map keys & values cannot be repeated');
+    // values are required, so that absent submessages decode as their default
+    const entry = new Message({
+      key: createSchema({ ...key, index: 1 }),
+      value: createSchema({ ...value, index: 2, _required: true }),
+    });
+    return addTransform(createSchema<any, 'map'>({ type: 'map', index, codec: codecs.submessage(entry), _map: as }));
+  }) as MapSchema,
+  /** Parse `.proto` source at runtime. Returns a registry of messages keyed by their fully qualified
+   * names. Since the schema is only known at runtime, decoded values are loosely typed.
+   */
+  fromProto,
+  /** Emit `.proto` source for the given messages & enums, keyed by their names, e.g. to share
+   * schemas with other languages.
+   */
+  toProto,
+  /** `google.protobuf` well-known types, mapped to idiomatic JavaScript values. They are regular
+   * messages for use with `submessage` & `repeated.submessage`.
+   */
+  get wkt(): WellKnownTypes { return wkt ??= createWellKnownTypes(); },
   ...fieldSchemas,
-  repeated: {
-    // NOTE: it's easiest to just ignore the TypeScript bits and pretend everything is correct
-    ...Object.fromEntries(
-      Object.entries(fieldSchemas).map(([key, fn]) => [
-        key,
-        (index: number, ...args: any[]) => Object.assign((fn as any)(index, ...args) as any, { _repeated: Repeatedness.Default }),
-      ]),
-    ) as unknown as RepeatedSchemas,
-    expanded: Object.fromEntries(
-      Object.entries(fieldSchemas).map(([key, fn]) => [
-        key,
-        (index: number, ...args: any[]) => Object.assign((fn as any)(index, ...args) as any, { _repeated: Repeatedness.Expanded }),
-      ]),
-    ) as unknown as Omit<RepeatedSchemas, 'bytes' | 'string' | 'submessage'>,
-  },
+  repeated: repeatedSchemas,
 };
 
 // `infer` helper for type inference
 export namespace v {
   export type infer<T> = Infer<T>;
+  /** Type of messages decoding to `U`, to annotate recursive messages. */
+  export type message<U> = IMessage<any, U>;
 }
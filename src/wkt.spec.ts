@@ -0,0 +1,167 @@
+import { describe, expect, test } from 'bun:test';
+import { DecodeLimitError } from './errors';
+import { Bytes, ProtoBuffer } from './protobuffer';
+import { v } from './schema';
+import type { AnyRegistry } from './wkt';
+
+const { wkt } = v;
+
+describe('well-known types', () => {
+  test('Timestamp', () => {
+    const date = new Date('2024-01-02T03:04:05.678Z');
+    const encoded = wkt.Timestamp.encode(date).toShrunk().seek(0);
+    expect(wkt.PreciseTimestamp.decode(encoded)).toMatchObject({ seconds: 1704164645n, nanos: 678000000 });
+    expect(wkt.Timestamp.decode(encoded.seek(0))).toEqual(date);
+
+    expect(wkt.Timestamp.toJSON(date)).toBe('2024-01-02T03:04:05.678Z');
+    expect(wkt.Timestamp.toJSON(new Date(0))).toBe('1970-01-01T00:00:00Z');
+    expect(wkt.PreciseTimestamp.toJSON({ seconds: 0n, nanos: 1 })).toBe('1970-01-01T00:00:00.000000001Z');
+    expect(wkt.PreciseTimestamp.fromJSON('1972-01-01T10:00:20.021+01:00')).toEqual({ seconds: 63104420n, nanos: 21000000 });
+    expect(wkt.PreciseTimestamp.fromJSON('0001-01-01T00:00:00Z')).toEqual({ seconds: -62135596800n, nanos: 0 });
+    expect(() => wkt.Timestamp.fromJSON('2024-01-02')).toThrow('Invalid timestamp');
+  });
+
+  test('Duration', () => {
+    const encoded = wkt.Duration.encode(-1500).toShrunk().seek(0);
+    expect(wkt.PreciseDuration.decode(encoded)).toMatchObject({ seconds: -1n, nanos: -500000000 });
+    expect(wkt.Duration.decode(encoded.seek(0))).toBe(-1500);
+
+    expect(wkt.Duration.toJSON(-1500)).toBe('-1.500s');
+    expect(wkt.Duration.toJSON(3000)).toBe('3s');
+    expect(wkt.PreciseDuration.toJSON({ seconds: 1n, nanos: 340012 })).toBe('1.000340012s');
+    expect(wkt.Duration.fromJSON('-0.5s')).toBe(-500);
+    expect(() => wkt.Duration.fromJSON('5')).toThrow('Invalid duration');
+  });
+
+  test('wrappers', () => {
+    const schema = v.message({
+      count: v.submessage(1, wkt.Int32Value),
+      name: v.submessage(2, wkt.StringValue),
+      big: v.submessage(3, wkt.Int64Value),
+    });
+
+    // zero values are present, as opposed to absent
+    const encoded = schema.encode({ count: 0, name: null, big: 5n }).toShrunk();
+    expect(encoded.toHex()).toBe('0a001a020805');
+    expect(schema.decode(encoded.seek(0))).toMatchObject({ count: 0, name: null, big: 5n });
+
+    expect(schema.toJSON({ count: 0, name: 'a', big: 5n })).toEqual({ count: 0, name: 'a', big: '5' });
+    expect(schema.fromJSON({ count: 1, name: null })).toMatchObject({ count: 1, name: null, big: null });
+  });
+
+  test('absent', () => {
+    const schema = v.message({
+      at: v.submessage(1, wkt.Timestamp),
+      precise: v.submessage(2, wkt.PreciseTimestamp),
+      ttl: v.submessage(3, wkt.Duration),
+      span: v.submessage(4, wkt.PreciseDuration),
+      mask: v.submessage(5, wkt.FieldMask),
+    });
+    const decoded = schema.decode(new Uint8Array());
+    expect(decoded).toMatchObject({ at: undefined, precise: undefined, ttl: undefined, span: undefined, mask: undefined });
+    expect(schema.encode(decoded).toShrunk().toHex()).toBe('');
+    expect(schema.toJSON(decoded)).toEqual({});
+    expect(schema.fromJSON({ at: null, ttl: null })).toMatchObject({ at: undefined, ttl: undefined });
+
+    // zero values are present, as opposed to absent
+    const zero = { at: new Date(0), ttl: 0 };
+    expect(schema.encode(zero).toShrunk().toHex()).toBe('0a001a00');
+    expect(schema.decode(schema.encode(zero).seek(0))).toMatchObject(zero);
+    expect(schema.toJSON(zero)).toEqual({ at: '1970-01-01T00:00:00Z', ttl: '0s' });
+  });
+
+  test('Empty & FieldMask', () => {
+    const schema = v.message({
+      empty: v.submessage(1, wkt.Empty),
+      mask: v.submessage(2, wkt.FieldMask),
+    });
+    const value = { empty: {}, mask: ['user.display_name', 'photo'] };
+    expect(schema.decode(schema.encode(value).seek(0))).toMatchObject(value);
+    expect(schema.toJSON(value)).toEqual({ empty: {}, mask: 'user.displayName,photo' });
+
+    // set but empty messages are present
+    expect(schema.encode({ empty: {} }).toShrunk().toHex()).toBe('0a00');
+    expect(schema.has({ empty: {} }, 'empty')).toBe(true);
+    expect(schema.decode(new Uint8Array()).empty).toBeUndefined();
+    expect(schema.fromJSON({ empty: {}, mask: 'user.displayName,photo' })).toMatchObject(value);
+  });
+
+  test('repeated', () => {
+    const schema = v.message({ times: v.repeated.submessage(1, wkt.Timestamp) });
+    const value = { times: [new Date(0), new Date(1000)] };
+    expect(schema.decode(schema.encode(value).seek(0)).times).toEqual(value.times);
+  });
+
+  describe('Any', () => {
+    const Coin = v.message({ denom: v.string(1), amount: v.string(2) });
+    const RawAny = v.message({ type_url: v.string(1), value: v.bytes(2) });
+    const schema = v.message({
+      msg: v.any(1, { '/test.Coin': Coin, '/google.protobuf.Duration': wkt.Duration }),
+    });
+
+    test('packing', () => {
+      const coin = { denom: 'uatom', amount: '1' };
+      const encoded = schema.encode({ msg: { typeUrl: '/test.Coin', value: coin } }).toShrunk();
+      const raw = v.message({ msg: v.submessage(1, RawAny) }).decode(encoded.seek(0));
+      expect(raw.msg!.type_url).toBe('/test.Coin');
+      expect(Coin.decode(new ProtoBuffer(raw.msg!.value!))).toMatchObject(coin);
+
+      expect(schema.decode(encoded.seek(0)).msg).toMatchObject({ typeUrl: '/test.Coin', value: coin });
+    });
+
+    test('unregistered', () => {
+      const bytes = new Uint8Array([0x08, 0x01]);
+      const encoded = schema.encode({ msg: { typeUrl: '/test.Unknown', value: bytes } }).toShrunk();
+      const decoded = schema.decode(encoded.seek(0)).msg!;
+      expect(decoded.typeUrl).toBe('/test.Unknown');
+      expect(decoded.value).toBeInstanceOf(Bytes);
+      expect(Bytes.getUint8Array(decoded.value as Bytes)).toEqual(bytes);
+
+      expect(() => schema.encode({ msg: { typeUrl: '/test.Unknown', value: {} as any } })).toThrow('Cannot pack unregistered type');
+    });
+
+    test('limits', () => {
+      const registry: AnyRegistry = {};
+      const MsgExec = v.message({ msg: v.any(1, registry) });
+      registry['/test.MsgExec'] = MsgExec;
+      const nest = (depth: number): any => depth ? { msg: { typeUrl: '/test.MsgExec', value: nest(depth - 1) } } : {};
+
+      // packed messages are nested within their `Any`
+      expect(MsgExec.decode(MsgExec.encode(nest(1)).seek(0), { maxDepth: 3 })).toMatchObject(nest(1));
+      let error: any;
+      try {
+        MsgExec.decode(MsgExec.encode(nest(10)).seek(0), { maxDepth: 3 });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(DecodeLimitError);
+      expect(error.limit).toBe('maxDepth');
+
+      // as are the other options
+      const unknown = v.message({ msg: v.submessage(1, { type_url: v.string(1), value: v.bytes(2) }) }).encode({
+        msg: { type_url: '/test.MsgExec', value: new Uint8Array([0x10, 0x01]) },
+      });
+      expect(() => MsgExec.decode(unknown.seek(0), { unknownFields: 'strict' })).toThrow('Unknown fields: 2 (Varint)');
+    });
+
+    test('deterministic', () => {
+      const Labels = v.message({ labels: v.map(1, v.string(0), v.string(0)) });
+      const schema = v.message({ msg: v.any(1, { '/test.Labels': Labels }) });
+      const value = { labels: new Map([['b', '1'], ['a', '2']]) };
+      const packed = Labels.encode(value, { deterministic: true }).toShrunk().bytes();
+      expect(schema.encode({ msg: { typeUrl: '/test.Labels', value } }, { deterministic: true }).toShrunk().toHex())
+        .toBe(schema.encode({ msg: { typeUrl: '/test.Labels', value: packed } }).toShrunk().toHex());
+      expect(schema.encode({ msg: { typeUrl: '/test.Labels', value } }).toShrunk().toHex())
+        .not.toBe(schema.encode({ msg: { typeUrl: '/test.Labels', value: packed } }).toShrunk().toHex());
+    });
+
+    test('JSON', () => {
+      expect(schema.toJSON({ msg: { typeUrl: '/test.Coin', value: { denom: 'uatom', amount: '1' } } }))
+        .toEqual({ msg: { '@type': '/test.Coin', denom: 'uatom', amount: '1' } });
+      expect(schema.toJSON({ msg: { typeUrl: '/google.protobuf.Duration', value: 1500 } }))
+        .toEqual({ msg: { '@type': '/google.protobuf.Duration', value: '1.500s' } });
+      expect(schema.fromJSON({ msg: { '@type': '/google.protobuf.Duration', value: '1.500s' } }).msg)
+        .toEqual({ typeUrl: '/google.protobuf.Duration', value: 1500 });
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import type { Infer } from './commons';
+import { DecodeError, EncodeError } from './errors';
+import { expectJson, toJsonName, type JsonValue } from './json';
+import { Message, type IMessage, type MessageFields } from './message';
+import { Bytes, ProtoBuffer } from './protobuffer';
+import { fieldSchemas, repeatedSchemas, type FieldSchema } from './schema';
+
+/** Full precision representation of `google.protobuf.Timestamp` & `google.protobuf.Duration`. */
+export interface Seconds {
+  seconds: bigint;
+  nanos: number;
+}
+
+export type WellKnownTypes = ReturnType<typeof createWellKnownTypes>;
+
+/** Messages packable into `google.protobuf.Any`, keyed by their type URLs, e.g.
+ * `/cosmos.bank.v1beta1.MsgSend` or `type.googleapis.com/google.protobuf.Duration`.
+ */
+export type AnyRegistry = Record<string, IMessage<any, any>>;
+
+/** Decoded `google.protobuf.Any`. Values of registered type URLs are decoded, while others are kept
+ * as raw bytes.
+ */
+export type AnyValue<R extends AnyRegistry> =
+  | { [K in keyof R & string]: { typeUrl: K, value: Infer<R[K]> } }[keyof R & string]
+  | { typeUrl: string, value: Bytes | Uint8Array };
+
+/** Names & files of the well-known messages, keyed by their fields so that transformed messages
+ * share the name of their underlying message.
+ */
+const wellKnownNames = new WeakMap<MessageFields, WellKnownName>();
+
+export interface WellKnownName {
+  /** Full name, e.g. `google.protobuf.Timestamp`. */
+  name: string;
+  /** File declaring the type, e.g. `google/protobuf/timestamp.proto`. */
+  file: string;
+}
+
+/** Get the name of a well-known message by its fields, if it is one. */
+export function getWellKnownName(fields: MessageFields): WellKnownName | undefined {
+  return wellKnownNames.get(fields);
+}
+
+/** Timestamps range from 0001-01-01T00:00:00Z to 9999-12-31T23:59:59Z. */
+const MIN_TIMESTAMP_SECONDS = -62135596800n;
+const MAX_TIMESTAMP_SECONDS = 253402300799n;
+/** Durations range from approx. -10,000 to +10,000 years. */
+const MAX_DURATION_SECONDS = 315576000000n;
+
+/** Create the `google.protobuf` well-known types. Types are created on first access of `hpb.wkt`
+ * as they are built from the regular field schemas. Absent timestamps, durations & field masks
+ * decode as `undefined`, and absent wrappers as `null`, so that they remain absent when re-encoded.
+ */
+export function createWellKnownTypes() {
+  const { int64, int32, string, bytes, bool, double, float, uint64, uint32 } = fieldSchemas;
+  const timestamp = wellKnown(new Message({ seconds: int64(1), nanos: int32(2) }), 'Timestamp', 'timestamp');
+  const duration = wellKnown(new Message({ seconds: int64(1), nanos: int32(2) }), 'Duration', 'duration');
+
+  const PreciseTimestamp = timestamp.transform<Seconds | undefined>({
+    get default() { return undefined; },
+    encode: (value) => value ?? {},
+    decode: ({ seconds = 0n, nanos = 0 }) => ({ seconds, nanos }),
+    toJSON: (value) => value === undefined ? null : formatTimestamp(value),
+    fromJSON: (json) => json === null ? undefined : parseTimestamp(json),
+  });
+
+  const Timestamp = timestamp.transform<Date | undefined>({
+    get default() { return undefined; },
+    encode: (value) => value ? fromDate(value) : {},
+    decode: ({ seconds = 0n, nanos = 0 }) => new Date(Number(seconds) * 1000 + Math.floor(nanos / 1e6)),
+    toJSON: (value) => value === undefined ? null : formatTimestamp(fromDate(value)),
+    fromJSON: (json) => {
+      if (json === null) return undefined;
+      const { seconds, nanos } = parseTimestamp(json);
+      return new Date(Number(seconds) * 1000 + Math.floor(nanos / 1e6));
+    },
+  });
+
+  const PreciseDuration = duration.transform<Seconds | undefined>({
+    get default() { return undefined; },
+    encode: (value) => value ?? {},
+    decode: ({ seconds = 0n, nanos = 0 }) => ({ seconds, nanos }),
+    toJSON: (value) => value === undefined ? null : formatDuration(value),
+    fromJSON: (json) => json === null ? undefined : parseDuration(json),
+  });
+
+  /** Durations in milliseconds. Fractional milliseconds are retained down to nanoseconds. */
+  const Duration = duration.transform<number | undefined>({
+    get default() { return undefined; },
+    encode: (value) => value === undefined ? {} : fromMillis(value),
+    decode: ({ seconds = 0n, nanos = 0 }) => toMillis({ seconds, nanos }),
+    toJSON: (value) => value === undefined ? null : formatDuration(fromMillis(value)),
+    fromJSON: (json) => json === null ? undefined : toMillis(parseDuration(json)),
+  });
+
+  const FieldMask = wellKnown(new Message({ paths: repeatedSchemas.string(1) }), 'FieldMask', 'field_mask').transform<string[] | undefined>({
+    get default() { return undefined; },
+    encode: (paths) => ({ paths }),
+    decode: ({ paths = [] }) => paths,
+    toJSON: (paths) => paths === undefined ? null : paths.map(path => {
+      if (/[A-Z]|_[^a-z]|_$/.test(path))
+        throw new EncodeError(`Field mask path ${path} cannot be represented in JSON`);
+      return toJsonName(path);
+    }).join(','),
+    fromJSON: (json) => {
+      if (json === null) return undefined;
+      expectJson(json, 'string');
+      if (!json) return [];
+      return (json as string).split(',').map(path => path.replace(/[A-Z]/g, char => '_' + char.toLowerCase()));
+    },
+  });
+
+  return {
+    Timestamp,
+    PreciseTimestamp,
+    Duration,
+    PreciseDuration,
+    Empty: wellKnown(new Message({}), 'Empty', 'empty'),
+    FieldMask,
+    DoubleValue: wrapper('DoubleValue', double(1)),
+    FloatValue: wrapper('FloatValue', float(1)),
+    Int64Value: wrapper('Int64Value', int64(1)),
+    UInt64Value: wrapper('UInt64Value', uint64(1)),
+    Int32Value: wrapper('Int32Value', int32(1)),
+    UInt32Value: wrapper('UInt32Value', uint32(1)),
+    BoolValue: wrapper('BoolValue', bool(1)),
+    StringValue: wrapper('StringValue', string(1)),
+    BytesValue: wrapper('BytesValue', bytes(1)),
+  };
+}
+
+/** Create a `google.protobuf.Any` message which packs & unpacks the messages of the given registry. */
+export function createAny<R extends AnyRegistry>(registry: R): IMessage<any, AnyValue<R> | undefined> {
+  const { string, bytes } = fieldSchemas;
+  const getMessage = (typeUrl: string) => Object.hasOwn(registry, typeUrl) ? registry[typeUrl] : undefined;
+
+  return wellKnown(new Message({ type_url: string(1), value: bytes(2) }), 'Any', 'any').transform<AnyValue<R> | undefined>({
+    get default() { return undefined; },
+    encode: (any, options) => {
+      if (!any) return {};
+      const { typeUrl, value } = any;
+      if (value instanceof Bytes || value instanceof Uint8Array)
+        return { type_url: typeUrl, value };
+      const msg = getMessage(typeUrl);
+      if (!msg)
+        throw new EncodeError(`Cannot pack unregistered type ${typeUrl}`);
+      return { type_url: typeUrl, value: msg.encode(value, { deterministic: options?.deterministic }).toShrunk().bytes() };
+    },
+    // packed messages are nested within the `Any`, so they count towards its limits
+    decode: ({ type_url = '', value = new Uint8Array() }, options) => {
+      const msg = getMessage(type_url);
+      if (!msg) return { typeUrl: type_url, value };
+      return { typeUrl: type_url, value: msg.decode(new ProtoBuffer(value), { ...options, _depth: (options?._depth ?? 0) + 1 }) } as AnyValue<R>;
+    },
+    // messages with special JSON forms are nested in a `value` property
+    toJSON: (any, options): JsonValue => {
+      if (!any) return null;
+      const msg = getMessage(any.typeUrl);
+      if (!msg)
+        throw new EncodeError(`Cannot represent unregistered type ${any.typeUrl} in JSON`);
+      const json = msg.toJSON(any.value, options);
+      if (msg instanceof Message)
+        return { '@type': any.typeUrl, ...json as Record<string, JsonValue> };
+      return { '@type': any.typeUrl, value: json };
+    },
+    fromJSON: (json, options) => {
+      expectJson(json, 'object');
+      const { '@type': typeUrl, ...rest } = json as Record<string, JsonValue>;
+      expectJson(typeUrl ?? null, 'string');
+      const msg = getMessage(typeUrl as string);
+      if (!msg)
+        throw new DecodeError(`Cannot unpack unregistered type ${typeUrl} from JSON`);
+      const value = msg instanceof Message ? msg.fromJSON(rest, options) : msg.fromJSON(rest.value ?? null, options);
+      return { typeUrl, value } as AnyValue<R>;
+    },
+  });
+}
+
+/** Wrappers decode to their primitive value, or `null` when absent. Their JSON form is that of the
+ * primitive value.
+ */
+function wrapper<T>(name: string, schema: FieldSchema<T | undefined, string>): IMessage<{ value: FieldSchema<T | undefined, string> }, T | null> {
+  return wellKnown(new Message({ value: schema }), name, 'wrappers').transform<T | null>({
+    get default() { return null; },
+    encode: (value) => ({ value: value ?? undefined }),
+    decode: (payload: { value?: T }) => payload.value as T,
+    toJSON: (value, options) => value === null ? null : schema.codec.toJSON(value, options),
+    fromJSON: (json, options) => json === null ? null : schema.codec.fromJSON(json, options) as T,
+  }) as any;
+}
+
+function wellKnown<M extends Message<any>>(message: M, name: string, file: string): M {
+  wellKnownNames.set(message.fields, { name: `google.protobuf.${name}`, file: `google/protobuf/${file}.proto` });
+  return message;
+}
+
+function fromDate(date: Date): Seconds {
+  const millis = date.getTime();
+  if (Number.isNaN(millis))
+    throw new EncodeError('Invalid Date');
+  const seconds = Math.floor(millis / 1000);
+  return { seconds: BigInt(seconds), nanos: (millis - seconds * 1000) * 1e6 };
+}
+
+function fromMillis(millis: number): Seconds {
+  if (!Number.isFinite(millis))
+    throw new EncodeError(`Invalid duration: ${millis}`);
+  // seconds & nanos share the sign of the duration
+  const seconds = Math.trunc(millis / 1000);
+  return { seconds: BigInt(seconds), nanos: Math.round((millis - seconds * 1000) * 1e6) };
+}
+
+const toMillis = ({ seconds, nanos }: Seconds) => Number(seconds) * 1000 + nanos / 1e6;
+
+/** Format fractional seconds with 0, 3, 6, or 9 digits, as per the canonical JSON mapping. */
+function formatNanos(nanos: number) {
+  if (nanos === 0) return '';
+  const digits = nanos.toString().padStart(9, '0');
+  if (nanos % 1e6 === 0) return '.' + digits.slice(0, 3);
+  if (nanos % 1e3 === 0) return '.' + digits.slice(0, 6);
+  return '.' + digits;
+}
+
+function formatTimestamp({ seconds, nanos }: Seconds) {
+  if (seconds < MIN_TIMESTAMP_SECONDS || seconds > MAX_TIMESTAMP_SECONDS || nanos < 0 || nanos > 999_999_999)
+    throw new EncodeError(`Timestamp out of range: ${seconds}s ${nanos}ns`);
+  const iso = new Date(Number(seconds) * 1000).toISOString();
+  return iso.slice(0, 19) + formatNanos(nanos) + 'Z';
+}
+
+function parseTimestamp(json: JsonValue): Seconds {
+  expectJson(json, 'string');
+  const match = /^(\d{4})-(\d{2})-(\d{2})[Tt](\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,9}))?(?:[Zz]|([+-])(\d{2}):(\d{2}))$/.exec(json as string);
+  if (!match)
+    throw new DecodeError(`Invalid timestamp: ${json}`);
+  const [, year, month, day, hours, minutes, secs, fraction = '', sign, offsetHours = '0', offsetMinutes = '0'] = match;
+
+  // `Date.UTC` maps years 0-99 to 1900-1999
+  const date = new Date(0);
+  date.setUTCFullYear(+year!, +month! - 1, +day!);
+  date.setUTCHours(+hours!, +minutes!, +secs!);
+  const offset = (+offsetHours * 60 + +offsetMinutes) * 60 * (sign === '-' ? -1 : 1);
+  const seconds = BigInt(date.getTime() / 1000 - offset);
+  if (seconds < MIN_TIMESTAMP_SECONDS || seconds > MAX_TIMESTAMP_SECONDS)
+    throw new DecodeError(`Timestamp out of range: ${json}`);
+  return { seconds, nanos: +fraction.padEnd(9, '0') };
+}
+
+function formatDuration({ seconds, nanos }: Seconds) {
+  if (seconds < -MAX_DURATION_SECONDS || seconds > MAX_DURATION_SECONDS || Math.abs(nanos) > 999_999_999 || (seconds > 0n && nanos < 0) || (seconds < 0n && nanos > 0))
+    throw new EncodeError(`Duration out of range: ${seconds}s ${nanos}ns`);
+  const negative = seconds < 0n || nanos < 0;
+  const abs = seconds < 0n ? -seconds : seconds;
+  return `${negative ? '-' : ''}${abs}${formatNanos(Math.abs(nanos))}s`;
+}
+
+function parseDuration(json: JsonValue): Seconds {
+  expectJson(json, 'string');
+  const match = /^(-)?(\d+)(?:\.(\d{1,9}))?s$/.exec(json as string);
+  if (!match)
+    throw new DecodeError(`Invalid duration: ${json}`);
+  const [, sign, secs, fraction = ''] = match;
+  const seconds = BigInt(secs!);
+  if (seconds > MAX_DURATION_SECONDS)
+    throw new DecodeError(`Duration out of range: ${json}`);
+  const nanos = +fraction.padEnd(9, '0');
+  return sign ? { seconds: -seconds, nanos: nanos && -nanos } : { seconds, nanos };
+}